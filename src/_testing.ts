@@ -0,0 +1,27 @@
+// shared fixtures for the *_test.ts files
+
+import { DEFAULT_CONFIG } from "./config.ts";
+import { GameEngine } from "./engine.ts";
+import { centerPlayerOnGrid, type Spirit, type SpiritKind } from "./world.ts";
+
+// player stands in cell (0, 0); cells 1..3 to the north are all in reach;
+// spirits are embers unless another kind is given
+export function createEngine(
+  cells: [string, number, SpiritKind?][] = [],
+): GameEngine {
+  const engine = new GameEngine({ ...DEFAULT_CONFIG, victoryValue: 8 });
+  engine.restore({
+    playerPos: centerPlayerOnGrid(0, 0),
+    inventory: [],
+    selectedSlot: 0,
+    cellMemory: cells.map(([key, value, kind = "ember"]) => [
+      key,
+      value > 0 ? { value, kind } : { value },
+    ]),
+  });
+  return engine;
+}
+
+export function ember(value: number): Spirit {
+  return { kind: "ember", value };
+}
@@ -0,0 +1,320 @@
+import type { ActionEvent, GameEvent } from "./engine.ts";
+import type { MovementMode } from "./save.ts";
+import { SPECIAL_SPIRIT_KINDS, type SpiritKind } from "./world.ts";
+
+// --- Storage keys ------------------------------------------------
+
+// one record per browser, shared by every save slot
+const LIFETIME_KEY = "dreamlink-lifetime";
+
+// --- Types -------------------------------------------------------
+
+export interface LifetimeStats {
+  victories: number;
+  // play time of the quickest run that reached the victory value
+  fastestVictoryMs: number | null;
+  // merges counted by the value they produced
+  mergesByValue: Record<string, number>;
+  specialsMade: number;
+  cellsTraveled: number;
+  geoMs: number;
+  buttonMs: number;
+}
+
+export interface Achievement {
+  id: string;
+  icon: string;
+  name: string;
+  description: string;
+  isUnlocked(stats: LifetimeStats): boolean;
+}
+
+// MEMENTO PATTERN
+export interface LifetimeRecord {
+  stats: LifetimeStats;
+  // achievement id and when it was unlocked
+  unlocked: [string, number][];
+}
+
+// the part of localStorage the tracker needs
+export type LifetimeStorage = Pick<Storage, "getItem" | "setItem">;
+
+// --- Achievements ------------------------------------------------
+
+const MINUTE_MS = 60_000;
+
+export function totalMerges(stats: LifetimeStats): number {
+  return Object.values(stats.mergesByValue).reduce((a, b) => a + b, 0);
+}
+
+function highestMerge(stats: LifetimeStats): number {
+  return Math.max(0, ...Object.keys(stats.mergesByValue).map(Number));
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "firstMerge",
+    icon: "⚡",
+    name: "First Fusion",
+    description: "Merge two spirits.",
+    isUnlocked: (stats) => totalMerges(stats) >= 1,
+  },
+  {
+    id: "value16",
+    icon: "✨",
+    name: "Bright Spirit",
+    description: "Merge a spirit of value 16 or more.",
+    isUnlocked: (stats) => highestMerge(stats) >= 16,
+  },
+  {
+    id: "alchemist",
+    icon: "⚗️",
+    name: "Alchemist",
+    description: "Fuse two different kinds into a special spirit.",
+    isUnlocked: (stats) => stats.specialsMade >= 1,
+  },
+  {
+    id: "merges100",
+    icon: "🔮",
+    name: "Weaver",
+    description: "Merge 100 spirits.",
+    isUnlocked: (stats) => totalMerges(stats) >= 100,
+  },
+  {
+    id: "firstVictory",
+    icon: "🌟",
+    name: "Dream Restored",
+    description: "Win a run.",
+    isUnlocked: (stats) => stats.victories >= 1,
+  },
+  {
+    id: "victories5",
+    icon: "👑",
+    name: "Dreamkeeper",
+    description: "Win five runs.",
+    isUnlocked: (stats) => stats.victories >= 5,
+  },
+  {
+    id: "quickVictory",
+    icon: "⏱️",
+    name: "Lucid",
+    description: "Win a run in under 15 minutes of play.",
+    isUnlocked: (stats) =>
+      stats.fastestVictoryMs !== null &&
+      stats.fastestVictoryMs < 15 * MINUTE_MS,
+  },
+  {
+    id: "cells100",
+    icon: "👣",
+    name: "Wanderer",
+    description: "Travel 100 cells.",
+    isUnlocked: (stats) => stats.cellsTraveled >= 100,
+  },
+  {
+    id: "cells1000",
+    icon: "🧭",
+    name: "Pathfinder",
+    description: "Travel 1,000 cells.",
+    isUnlocked: (stats) => stats.cellsTraveled >= 1000,
+  },
+  {
+    id: "geo30",
+    icon: "🛰️",
+    name: "Outdoors",
+    description: "Play 30 minutes with GEO movement.",
+    isUnlocked: (stats) => stats.geoMs >= 30 * MINUTE_MS,
+  },
+];
+
+// --- Lifetime tracker --------------------------------------------
+
+function createEmptyRecord(): LifetimeRecord {
+  return {
+    stats: {
+      victories: 0,
+      fastestVictoryMs: null,
+      mergesByValue: {},
+      specialsMade: 0,
+      cellsTraveled: 0,
+      geoMs: 0,
+      buttonMs: 0,
+    },
+    unlocked: [],
+  };
+}
+
+function isSpecialKind(kind: SpiritKind): boolean {
+  return (SPECIAL_SPIRIT_KINDS as readonly SpiritKind[]).includes(kind);
+}
+
+// Stats and achievements across every run, slot and reset. Fed the engine's
+// events plus play time; reports achievements as they unlock.
+export class LifetimeTracker {
+  private record: LifetimeRecord;
+  // null while the run is untimed
+  private runTime: number | null = 0;
+
+  constructor(private storage: LifetimeStorage = localStorage) {
+    this.record = this.load();
+  }
+
+  get stats(): Readonly<LifetimeStats> {
+    return this.record.stats;
+  }
+
+  // play time of the current run; saved with the run, not the record
+  get runTimeMs(): number | null {
+    return this.runTime;
+  }
+
+  unlockedAt(id: string): number | null {
+    return this.record.unlocked.find(([unlocked]) => unlocked === id)?.[1] ??
+      null;
+  }
+
+  // runs loaded without a timer never set the fastest victory
+  startRun(runTimeMs: number | null = 0): void {
+    this.runTime = runTimeMs;
+  }
+
+  // OBSERVER PATTERN
+  // returns the achievements the event unlocked
+  recordEvent(event: GameEvent): Achievement[] {
+    const stats = this.record.stats;
+    switch (event.type) {
+      case "moved":
+      case "merged":
+        this.count(event, 1);
+        break;
+      // only actions still in the undo history count
+      case "undone":
+        this.count(event.event, -event.count);
+        this.save();
+        return [];
+      case "redone":
+        this.count(event.event, event.count);
+        break;
+      case "victory":
+        stats.victories++;
+        if (this.runTime !== null) {
+          stats.fastestVictoryMs = Math.min(
+            stats.fastestVictoryMs ?? Infinity,
+            this.runTime,
+          );
+        }
+        break;
+      default:
+        return [];
+    }
+    const unlocked = this.checkAchievements();
+    this.save();
+    return unlocked;
+  }
+
+  // time only counts while a movement mode is in use; saved with save()
+  addPlayTime(ms: number, mode: MovementMode | null): Achievement[] {
+    if (!Number.isFinite(ms) || ms <= 0) return [];
+    if (this.runTime !== null) this.runTime += ms;
+    if (mode === "geo") this.record.stats.geoMs += ms;
+    if (mode === "button") this.record.stats.buttonMs += ms;
+    return this.checkAchievements();
+  }
+
+  // MEMENTO PATTERN
+  save(): void {
+    this.storage.setItem(LIFETIME_KEY, JSON.stringify(this.record));
+  }
+
+  // adds an action to the stats, or with a negative count takes it back out
+  private count(event: ActionEvent, times: number): void {
+    const stats = this.record.stats;
+    switch (event.type) {
+      case "moved":
+        stats.cellsTraveled = Math.max(0, stats.cellsTraveled + times);
+        break;
+      case "merged": {
+        const merges = (stats.mergesByValue[event.value] ?? 0) + times;
+        // a value nobody merged must not count as the highest merge
+        if (merges > 0) stats.mergesByValue[event.value] = merges;
+        else delete stats.mergesByValue[event.value];
+        if (isSpecialKind(event.kind)) {
+          stats.specialsMade = Math.max(0, stats.specialsMade + times);
+        }
+        break;
+      }
+    }
+  }
+
+  private checkAchievements(): Achievement[] {
+    const now = Date.now();
+    const unlocked = ACHIEVEMENTS.filter((achievement) =>
+      this.unlockedAt(achievement.id) === null &&
+      achievement.isUnlocked(this.record.stats)
+    );
+    unlocked.forEach(({ id }) => this.record.unlocked.push([id, now]));
+    return unlocked;
+  }
+
+  // an unreadable record starts over rather than blocking the game
+  private load(): LifetimeRecord {
+    const raw = this.storage.getItem(LIFETIME_KEY);
+    if (raw === null) return createEmptyRecord();
+    try {
+      return parseLifetime(JSON.parse(raw)) ?? createEmptyRecord();
+    } catch {
+      return createEmptyRecord();
+    }
+  }
+}
+
+// --- Validation --------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isStats(value: unknown): value is LifetimeStats {
+  return (
+    isObject(value) &&
+    isCount(value.victories) &&
+    (value.fastestVictoryMs === null || isCount(value.fastestVictoryMs)) &&
+    isObject(value.mergesByValue) &&
+    Object.values(value.mergesByValue).every(isCount) &&
+    isCount(value.specialsMade) &&
+    isCount(value.cellsTraveled) &&
+    isCount(value.geoMs) &&
+    isCount(value.buttonMs)
+  );
+}
+
+// returns null when the stored record can't be trusted
+export function parseLifetime(value: unknown): LifetimeRecord | null {
+  if (!isObject(value) || !isStats(value.stats)) return null;
+  if (
+    !Array.isArray(value.unlocked) ||
+    !value.unlocked.every((entry) =>
+      Array.isArray(entry) && typeof entry[0] === "string" &&
+      isCount(entry[1])
+    )
+  ) {
+    return null;
+  }
+
+  const { stats } = value;
+  return {
+    stats: {
+      victories: stats.victories,
+      fastestVictoryMs: stats.fastestVictoryMs,
+      mergesByValue: { ...stats.mergesByValue },
+      specialsMade: stats.specialsMade,
+      cellsTraveled: stats.cellsTraveled,
+      geoMs: stats.geoMs,
+      buttonMs: stats.buttonMs,
+    },
+    unlocked: value.unlocked,
+  };
+}
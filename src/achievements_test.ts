@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { LifetimeTracker } from "./achievements.ts";
+import { createEngine } from "./_testing.ts";
+
+Deno.test("lifetime stats and achievements outlive the run", () => {
+  const stored = new Map<string, string>();
+  const storage = {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => void stored.set(key, value),
+  };
+  const tracker = new LifetimeTracker(storage);
+  const engine = createEngine([["1,0", 4], ["2,0", 4]]);
+  const unlocked: string[] = [];
+  engine.subscribe((event) =>
+    tracker.recordEvent(event).forEach(({ id }) => unlocked.push(id))
+  );
+
+  tracker.startRun();
+  tracker.addPlayTime(60_000, "button");
+  engine.interact(1, 0);
+  engine.interact(2, 0);
+  assert.deepEqual(unlocked, ["firstMerge", "firstVictory", "quickVictory"]);
+  assert.deepEqual(tracker.stats.mergesByValue, { 8: 1 });
+  assert.equal(tracker.stats.fastestVictoryMs, 60_000);
+
+  // a slower win does not replace the record, and nothing unlocks twice
+  tracker.startRun(120_000);
+  tracker.recordEvent({ type: "victory", value: 8 });
+  const reloaded = new LifetimeTracker(storage);
+  assert.equal(reloaded.stats.victories, 2);
+  assert.equal(reloaded.stats.fastestVictoryMs, 60_000);
+  assert.equal(reloaded.stats.buttonMs, 60_000);
+  assert.ok(reloaded.unlockedAt("firstVictory") !== null);
+  assert.equal(reloaded.unlockedAt("victories5"), null);
+});
+
+Deno.test("undone actions drop out of the lifetime stats", () => {
+  const stored = new Map<string, string>();
+  const tracker = new LifetimeTracker({
+    getItem: (key) => stored.get(key) ?? null,
+    setItem: (key, value) => void stored.set(key, value),
+  });
+  const engine = createEngine([["1,0", 2, "ember"], ["2,0", 2, "tide"]]);
+  engine.subscribe((event) => tracker.recordEvent(event));
+
+  engine.move(0.0002, 0);
+  engine.undo();
+  engine.move(0.0002, 0);
+  assert.equal(tracker.stats.cellsTraveled, 1);
+
+  engine.interact(1, 0);
+  engine.interact(2, 0);
+  engine.undo();
+  engine.redo();
+  engine.undo();
+  engine.interact(2, 0);
+  assert.deepEqual(tracker.stats.mergesByValue, { 6: 1 });
+  assert.equal(tracker.stats.specialsMade, 1);
+
+  engine.undo();
+  assert.deepEqual(tracker.stats.mergesByValue, {});
+  assert.equal(tracker.stats.specialsMade, 0);
+});
+
+Deno.test("an untimed run wins without a fastest victory", () => {
+  const stored = new Map<string, string>();
+  const tracker = new LifetimeTracker({
+    getItem: (key) => stored.get(key) ?? null,
+    setItem: (key, value) => void stored.set(key, value),
+  });
+
+  // a migrated run, whose time before the timer existed is unknown
+  tracker.startRun(null);
+  tracker.addPlayTime(60_000, "geo");
+  const unlocked = tracker.recordEvent({ type: "victory", value: 8 });
+
+  assert.deepEqual(unlocked.map(({ id }) => id), ["firstVictory"]);
+  assert.equal(tracker.runTimeMs, null);
+  assert.equal(tracker.stats.victories, 1);
+  assert.equal(tracker.stats.fastestVictoryMs, null);
+  assert.equal(tracker.stats.geoMs, 60_000);
+});
@@ -0,0 +1,58 @@
+import type { Direction } from "./movement.ts";
+
+// --- Cell cursor -------------------------------------------------
+
+export interface CellIndex {
+  i: number;
+  j: number;
+}
+
+// The keyboard's stand-in for the mouse: a cell picked relative to the
+// player's cell, so it walks along with them. Hidden unless it has focus.
+export class CellCursor {
+  private north = 0;
+  private east = 0;
+  private shown = false;
+
+  get visible(): boolean {
+    return this.shown;
+  }
+
+  // steps from the player's cell to the cursor
+  get offset(): Direction {
+    return { north: this.north, east: this.east };
+  }
+
+  show(): void {
+    this.shown = true;
+  }
+
+  hide(): void {
+    this.shown = false;
+  }
+
+  // the cell under the cursor, or null while it is hidden
+  cellFrom(player: CellIndex): CellIndex | null {
+    if (!this.shown) return null;
+    return { i: player.i + this.north, j: player.j + this.east };
+  }
+
+  isAt(player: CellIndex, i: number, j: number): boolean {
+    const cell = this.cellFrom(player);
+    return cell !== null && cell.i === i && cell.j === j;
+  }
+
+  // stays put (and returns false) rather than leaving the player's reach
+  move(
+    direction: Direction,
+    player: CellIndex,
+    inReach: (i: number, j: number) => boolean,
+  ): boolean {
+    const north = this.north + direction.north;
+    const east = this.east + direction.east;
+    if (!inReach(player.i + north, player.j + east)) return false;
+    this.north = north;
+    this.east = east;
+    return true;
+  }
+}
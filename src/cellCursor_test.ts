@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { CellCursor } from "./cellCursor.ts";
+import { createEngine } from "./_testing.ts";
+
+Deno.test("the cell cursor stays within reach and follows the player", () => {
+  const engine = createEngine();
+  const cursor = new CellCursor();
+  const inReach = (i: number, j: number) => engine.isNearPlayer(i, j);
+  const north = { north: 1, east: 0 };
+
+  assert.equal(cursor.cellFrom({ i: 0, j: 0 }), null);
+  cursor.show();
+  assert.deepEqual(cursor.cellFrom({ i: 0, j: 0 }), { i: 0, j: 0 });
+
+  let steps = 0;
+  while (cursor.move(north, { i: 0, j: 0 }, inReach)) steps++;
+  assert.ok(steps > 0);
+  const edge = cursor.cellFrom({ i: 0, j: 0 })!;
+  assert.ok(engine.isNearPlayer(edge.i, edge.j));
+  assert.ok(!engine.isNearPlayer(edge.i + 1, edge.j));
+
+  // walking keeps the cursor at the same offset
+  assert.ok(cursor.isAt({ i: 5, j: 2 }, edge.i + 5, edge.j + 2));
+  cursor.hide();
+  assert.ok(!cursor.isAt({ i: 0, j: 0 }, edge.i, edge.j));
+});
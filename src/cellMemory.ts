@@ -0,0 +1,160 @@
+import type { CellMemento } from "./world.ts";
+
+// --- Constants ---------------------------------------------------
+
+export const CHUNK_SIZE = 64;
+
+// --- Types -------------------------------------------------------
+
+export type CellEntry = [string, CellMemento];
+
+// where chunks live between sessions (one localStorage key per chunk)
+export interface ChunkStorage {
+  read(chunk: string): CellEntry[] | null;
+  write(chunk: string, entries: CellEntry[]): void;
+  remove(chunk: string): void;
+  list(): string[];
+}
+
+// --- Helpers -----------------------------------------------------
+
+export function chunkKeyForCell(key: string): string {
+  const [i, j] = key.split(",").map(Number);
+  return `${Math.floor(i / CHUNK_SIZE)},${Math.floor(j / CHUNK_SIZE)}`;
+}
+
+// --- Chunked cell memory -----------------------------------------
+
+// FLYWEIGHT PATTERN
+// Modified cells grouped into CHUNK_SIZE x CHUNK_SIZE regions. Chunks are read
+// from storage the first time they are touched and only dirty chunks are
+// written back on flush.
+export class ChunkedCellMemory {
+  private chunks = new Map<string, Map<string, CellMemento>>();
+  private dirty = new Set<string>();
+  private storage: ChunkStorage | null = null;
+  // chunks storage doesn't have, so lookups there don't read it again
+  private missing = new Set<string>();
+
+  // set by clear(): stored chunks are stale and must not be loaded again
+  private discardStored = false;
+
+  // switches to another slot's storage; nothing is loaded until needed
+  attach(storage: ChunkStorage | null): void {
+    this.storage = storage;
+    this.chunks.clear();
+    this.dirty.clear();
+    this.missing.clear();
+    this.discardStored = false;
+  }
+
+  get(key: string): CellMemento | undefined {
+    return this.chunkFor(key, false)?.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  set(key: string, memento: CellMemento): this {
+    this.chunkFor(key, true)!.set(key, memento);
+    this.dirty.add(chunkKeyForCell(key));
+    this.missing.delete(chunkKeyForCell(key));
+    return this;
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.chunkFor(key, false)?.delete(key) ?? false;
+    if (deleted) this.dirty.add(chunkKeyForCell(key));
+    return deleted;
+  }
+
+  // forgets every cell, including the ones still in storage
+  clear(): void {
+    this.chunks.clear();
+    this.dirty.clear();
+    this.missing.clear();
+    this.discardStored = true;
+  }
+
+  // every remembered cell; loads all stored chunks
+  entries(): CellEntry[] {
+    if (this.storage && !this.discardStored) {
+      this.storage.list().forEach((chunk) => this.loadChunk(chunk));
+    }
+
+    const entries: CellEntry[] = [];
+    this.chunks.forEach((cells) => entries.push(...cells.entries()));
+    return entries;
+  }
+
+  // removes changed cells that match the predicate (e.g. procedural defaults)
+  prune(isRedundant: (key: string, memento: CellMemento) => boolean): number {
+    let pruned = 0;
+    for (const chunk of this.dirty) {
+      const cells = this.chunks.get(chunk);
+      cells?.forEach((memento, key) => {
+        if (isRedundant(key, memento)) {
+          cells.delete(key);
+          pruned++;
+        }
+      });
+    }
+    return pruned;
+  }
+
+  // writes dirty chunks back to storage
+  flush(): void {
+    if (!this.storage) return;
+
+    if (this.discardStored) {
+      for (const chunk of this.storage.list()) {
+        if (!this.chunks.has(chunk)) this.storage.remove(chunk);
+      }
+      this.chunks.forEach((_, chunk) => this.dirty.add(chunk));
+      this.discardStored = false;
+    }
+
+    for (const chunk of this.dirty) {
+      const cells = this.chunks.get(chunk);
+      if (cells && cells.size > 0) {
+        this.storage.write(chunk, Array.from(cells.entries()));
+      } else {
+        this.storage.remove(chunk);
+      }
+    }
+    this.dirty.clear();
+  }
+
+  // ---- internals ----
+
+  private chunkFor(
+    key: string,
+    create: boolean,
+  ): Map<string, CellMemento> | undefined {
+    const chunk = chunkKeyForCell(key);
+    let cells = this.chunks.get(chunk) ?? this.loadChunk(chunk);
+    if (!cells && create) {
+      cells = new Map();
+      this.chunks.set(chunk, cells);
+    }
+    return cells;
+  }
+
+  private loadChunk(chunk: string): Map<string, CellMemento> | undefined {
+    if (this.chunks.has(chunk)) return this.chunks.get(chunk);
+    if (!this.storage || this.discardStored || this.missing.has(chunk)) {
+      return undefined;
+    }
+
+    const entries = this.storage.read(chunk);
+    if (!entries) {
+      this.missing.add(chunk);
+      return undefined;
+    }
+
+    const cells = new Map(entries);
+    this.chunks.set(chunk, cells);
+    return cells;
+  }
+}
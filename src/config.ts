@@ -0,0 +1,190 @@
+import {
+  CELL_SIZE_DEG,
+  DEFAULT_SPAWN_TABLE,
+  INTERACTION_RADIUS_CELLS,
+  RESPAWN_COOLDOWN_MS,
+  type SpawnRule,
+  type WorldRules,
+} from "./world.ts";
+
+// --- Types -------------------------------------------------------
+
+export type PresetName = "easy" | "normal" | "hard" | "custom";
+
+export type SeedMode = "random" | "daily" | "custom";
+
+export interface GameConfig extends WorldRules {
+  preset: PresetName;
+  victoryValue: number;
+  inventorySize: number;
+}
+
+// the numbers a player may tune for a custom run
+export interface CustomConfigInput {
+  victoryValue: number;
+  interactionRadiusCells: number;
+  inventorySize: number;
+  spawnChance: number;
+  respawnHours: number;
+}
+
+// --- Presets -----------------------------------------------------
+
+function scaleSpawnTable(factor: number): SpawnRule[] {
+  return DEFAULT_SPAWN_TABLE.map(({ threshold, value }) => ({
+    threshold: Math.min(1, threshold * factor),
+    value,
+  }));
+}
+
+export const GAME_PRESETS: Record<Exclude<PresetName, "custom">, GameConfig> = {
+  easy: {
+    preset: "easy",
+    victoryValue: 16,
+    interactionRadiusCells: 4,
+    seed: "",
+    cellSizeDeg: CELL_SIZE_DEG,
+    inventorySize: 5,
+    spawnTable: scaleSpawnTable(1.5),
+    respawnCooldownMs: RESPAWN_COOLDOWN_MS / 4,
+  },
+  normal: {
+    preset: "normal",
+    victoryValue: 32,
+    interactionRadiusCells: INTERACTION_RADIUS_CELLS,
+    seed: "",
+    cellSizeDeg: CELL_SIZE_DEG,
+    inventorySize: 4,
+    spawnTable: DEFAULT_SPAWN_TABLE,
+    respawnCooldownMs: RESPAWN_COOLDOWN_MS,
+  },
+  hard: {
+    preset: "hard",
+    victoryValue: 64,
+    interactionRadiusCells: 2,
+    seed: "",
+    cellSizeDeg: CELL_SIZE_DEG,
+    inventorySize: 3,
+    spawnTable: scaleSpawnTable(0.6),
+    respawnCooldownMs: RESPAWN_COOLDOWN_MS * 6,
+  },
+};
+
+export const DEFAULT_CONFIG = GAME_PRESETS.normal;
+
+// --- Custom configs ----------------------------------------------
+
+const DEFAULT_SPAWN_CHANCE = DEFAULT_SPAWN_TABLE[
+  DEFAULT_SPAWN_TABLE.length - 1
+].threshold;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// rounds down to a power of two so the target is reachable by merging
+function toPowerOfTwo(value: number): number {
+  return 2 ** Math.floor(Math.log2(value));
+}
+
+// builds a custom config from player input, clamping it to playable ranges
+export function createCustomConfig(input: CustomConfigInput): GameConfig {
+  const spawnChance = clamp(input.spawnChance || 0, 0.01, 1);
+  return {
+    preset: "custom",
+    victoryValue: toPowerOfTwo(clamp(input.victoryValue || 2, 2, 1024)),
+    interactionRadiusCells: Math.round(
+      clamp(input.interactionRadiusCells || 1, 1, 10),
+    ),
+    seed: "",
+    cellSizeDeg: CELL_SIZE_DEG,
+    inventorySize: Math.round(clamp(input.inventorySize || 1, 1, 9)),
+    spawnTable: scaleSpawnTable(spawnChance / DEFAULT_SPAWN_CHANCE),
+    respawnCooldownMs: Math.round(
+      clamp(input.respawnHours || 0, 0, 24 * 7) * HOUR_MS,
+    ),
+  };
+}
+
+// --- World seeds -------------------------------------------------
+
+// the same seed for everyone playing on a given UTC day, whatever their
+// time zone, so they share one world
+export function createDailySeed(date = new Date()): string {
+  return `daily-${date.toISOString().slice(0, 10)}`;
+}
+
+export function createRandomSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function resolveSeed(mode: SeedMode, customSeed = ""): string {
+  switch (mode) {
+    case "random":
+      return createRandomSeed();
+    case "daily":
+      return createDailySeed();
+    case "custom":
+      return customSeed.trim() || createRandomSeed();
+  }
+}
+
+// --- Validation --------------------------------------------------
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isSpawnTable(value: unknown): value is SpawnRule[] {
+  return Array.isArray(value) &&
+    value.every((rule) =>
+      typeof rule === "object" && rule !== null &&
+      isPositive(rule.threshold) && rule.threshold <= 1 &&
+      Number.isInteger(rule.value) && rule.value > 0
+    );
+}
+
+// returns null when the stored config can't be trusted
+export function parseGameConfig(value: unknown): GameConfig | null {
+  if (typeof value !== "object" || value === null) return null;
+  const config = value as Record<string, unknown>;
+
+  const preset = config.preset;
+  if (
+    preset !== "easy" && preset !== "normal" && preset !== "hard" &&
+    preset !== "custom"
+  ) {
+    return null;
+  }
+
+  if (
+    typeof config.seed !== "string" ||
+    !isPositive(config.victoryValue) ||
+    !Number.isInteger(config.interactionRadiusCells) ||
+    !isPositive(config.interactionRadiusCells) ||
+    !isPositive(config.cellSizeDeg) ||
+    !Number.isInteger(config.inventorySize) ||
+    !isPositive(config.inventorySize) ||
+    !isSpawnTable(config.spawnTable) ||
+    typeof config.respawnCooldownMs !== "number" ||
+    !(config.respawnCooldownMs >= 0)
+  ) {
+    return null;
+  }
+
+  return {
+    preset,
+    seed: config.seed,
+    victoryValue: config.victoryValue,
+    interactionRadiusCells: config.interactionRadiusCells,
+    cellSizeDeg: config.cellSizeDeg,
+    inventorySize: config.inventorySize,
+    spawnTable: config.spawnTable.map(({ threshold, value }) => ({
+      threshold,
+      value,
+    })),
+    respawnCooldownMs: config.respawnCooldownMs,
+  };
+}
@@ -0,0 +1,464 @@
+import {
+  cellKey,
+  type CellMemento,
+  centerPlayerOnGrid,
+  getSpiritAt,
+  getSpiritKind,
+  hasRespawned,
+  isCellNearPlayer,
+  isProceduralDefault,
+  type LatLng,
+  latToCellIndex,
+  lngToCellIndex,
+  type Spirit,
+  type SpiritKind,
+  WORLD_ORIGIN,
+} from "./world.ts";
+
+import { combineSpirits } from "./recipes.ts";
+
+import { ChunkedCellMemory } from "./cellMemory.ts";
+
+import { DEFAULT_CONFIG, type GameConfig } from "./config.ts";
+
+import {
+  CommandHistory,
+  countMoves,
+  type HistoryAction,
+  type HistoryEntry,
+  type HistoryState,
+  type StateDelta,
+} from "./history.ts";
+
+// --- Rules constants ---------------------------------------------
+
+export const HISTORY_LIMIT = 50;
+
+// --- Events ------------------------------------------------------
+
+// what the undoable actions emit
+export type ActionEvent =
+  | { type: "moved"; pos: LatLng }
+  | { type: "picked"; i: number; j: number; kind: SpiritKind; value: number }
+  | { type: "merged"; i: number; j: number; kind: SpiritKind; value: number }
+  | { type: "dropped"; i: number; j: number; kind: SpiritKind; value: number };
+
+export type GameEvent =
+  | ActionEvent
+  | { type: "selected"; slot: number }
+  | { type: "tooFar"; i: number; j: number }
+  | { type: "empty"; i: number; j: number }
+  | { type: "resisted"; i: number; j: number; held: Spirit; target: Spirit }
+  | { type: "victory"; value: number }
+  // a bonus spirit appeared next to the player (quest rewards)
+  | { type: "rewarded"; i: number; j: number; kind: SpiritKind; value: number }
+  // cells lists the keys of the cells the step changed; event is what the
+  // action emitted when it was first done (the last move of a walk), count
+  // how many actions the step stands for
+  | {
+    type: "undone";
+    action: HistoryAction;
+    cells: string[];
+    event: ActionEvent;
+    count: number;
+  }
+  | {
+    type: "redone";
+    action: HistoryAction;
+    cells: string[];
+    event: ActionEvent;
+    count: number;
+  };
+
+export type GameEventListener = (event: GameEvent) => void;
+
+export type Inventory = (Spirit | null)[];
+
+// where bonus spirits appear, as [north, east] steps from the player's cell:
+// the four sides first, then the corners
+const ADJACENT_CELLS: [number, number][] = [
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+  [0, -1],
+  [1, 1],
+  [-1, 1],
+  [-1, -1],
+  [1, -1],
+];
+
+export interface GameStateSnapshot {
+  playerPos: LatLng;
+  inventory: Inventory;
+  selectedSlot: number;
+  // omitted on restore to keep the current (possibly unloaded) cells
+  cellMemory?: [string, CellMemento][];
+  history?: HistoryState;
+  config?: GameConfig;
+}
+
+// --- Engine ------------------------------------------------------
+
+// Headless owner of the game rules. Knows nothing about Leaflet or the DOM;
+// the renderer subscribes to the events it emits.
+export class GameEngine {
+  private pos: LatLng = { ...WORLD_ORIGIN };
+  private slots: Inventory;
+  private selected = 0;
+  private listeners = new Set<GameEventListener>();
+  private history = new CommandHistory(HISTORY_LIMIT);
+  private tracked = false;
+
+  readonly cellMemory = new ChunkedCellMemory();
+
+  // the clock is injectable so respawn timing can be tested
+  constructor(
+    private cfg: GameConfig = DEFAULT_CONFIG,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.slots = new Array(cfg.inventorySize).fill(null);
+  }
+
+  get config(): GameConfig {
+    return this.cfg;
+  }
+
+  get inventorySize(): number {
+    return this.cfg.inventorySize;
+  }
+
+  get playerPos(): LatLng {
+    return this.pos;
+  }
+
+  get inventory(): readonly (Spirit | null)[] {
+    return this.slots;
+  }
+
+  get selectedSlot(): number {
+    return this.selected;
+  }
+
+  // the spirit in the selected inventory slot
+  get heldSpirit(): Spirit | null {
+    return this.slots[this.selected];
+  }
+
+  // OBSERVER PATTERN
+  subscribe(listener: GameEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSpirit(i: number, j: number): Spirit | null {
+    return getSpiritAt(this.cellMemory, i, j, this.cfg, this.now());
+  }
+
+  // 0 for an empty cell
+  getSpiritAt(i: number, j: number): number {
+    return this.getSpirit(i, j)?.value ?? 0;
+  }
+
+  isNearPlayer(i: number, j: number): boolean {
+    return isCellNearPlayer(this.pos, i, j, this.cfg);
+  }
+
+  // while the position follows the GPS (or a replayed track), walks can't
+  // be undone and undo/redo leave the player where they stand
+  trackPosition(tracked: boolean): void {
+    this.tracked = tracked;
+    if (tracked) this.history.forgetMoves();
+  }
+
+  get canUndo(): boolean {
+    return this.history.canUndo;
+  }
+
+  get canRedo(): boolean {
+    return this.history.canRedo;
+  }
+
+  // ---- actions ----
+
+  // snaps raw input to the grid center
+  move(lat: number, lng: number): GameEvent {
+    if (this.tracked) {
+      this.pos = centerPlayerOnGrid(lat, lng, this.cfg);
+    } else {
+      this.record("move", [], () => {
+        this.pos = centerPlayerOnGrid(lat, lng, this.cfg);
+      });
+    }
+    return this.emit({ type: "moved", pos: this.pos });
+  }
+
+  selectSlot(slot: number): GameEvent | null {
+    if (!Number.isInteger(slot) || slot < 0 || slot >= this.inventorySize) {
+      return null;
+    }
+    this.selected = slot;
+    return this.emit({ type: "selected", slot });
+  }
+
+  interact(i: number, j: number): GameEvent[] {
+    if (!this.isNearPlayer(i, j)) {
+      return [this.emit({ type: "tooFar", i, j })];
+    }
+
+    const spirit = this.getSpirit(i, j);
+    const held = this.heldSpirit;
+
+    if (spirit && !held) {
+      return [this.pickup(i, j, spirit)];
+    }
+
+    if (spirit && held) {
+      const result = combineSpirits(held, spirit);
+      if (result) return this.merge(i, j, result);
+      return [this.emit({ type: "resisted", i, j, held, target: spirit })];
+    }
+
+    if (held) {
+      return [this.drop(i, j, held)];
+    }
+
+    return [this.emit({ type: "empty", i, j })];
+  }
+
+  undo(): GameEvent | null {
+    const entry = this.history.undo();
+    if (!entry) return null;
+    this.applyDelta(entry.before);
+    return this.emit({
+      type: "undone",
+      action: entry.action,
+      cells: entry.before.cells.map(([key]) => key),
+      event: this.actionEvent(entry),
+      count: countMoves(entry),
+    });
+  }
+
+  redo(): GameEvent | null {
+    const entry = this.history.redo();
+    if (!entry) return null;
+    this.applyDelta(entry.after);
+    return this.emit({
+      type: "redone",
+      action: entry.action,
+      cells: entry.after.cells.map(([key]) => key),
+      event: this.actionEvent(entry),
+      count: countMoves(entry),
+    });
+  }
+
+  // ---- state ----
+
+  // MEMENTO PATTERN
+  // without cells the snapshot skips loading every stored chunk
+  snapshot(includeCells = true): Required<GameStateSnapshot> {
+    return {
+      playerPos: { ...this.pos },
+      inventory: [...this.slots],
+      selectedSlot: this.selected,
+      cellMemory: includeCells ? this.cellMemory.entries() : [],
+      history: this.history.save(),
+      config: this.cfg,
+    };
+  }
+
+  // MEMENTO PATTERN
+  restore(state: GameStateSnapshot): void {
+    if (state.config) this.cfg = state.config;
+    this.pos = { ...state.playerPos };
+    this.setInventory(state.inventory, state.selectedSlot);
+    if (state.cellMemory) {
+      this.cellMemory.clear();
+      for (const [key, memento] of state.cellMemory) {
+        this.cellMemory.set(key, memento);
+      }
+    }
+    this.history.clear();
+    if (state.history) this.history.load(state.history);
+    if (this.tracked) this.history.forgetMoves();
+  }
+
+  // forgets changed cells that are back at their procedural value
+  pruneDefaultCells(): number {
+    return this.cellMemory.prune((key, memento) => {
+      const [i, j] = key.split(",").map(Number);
+      return isProceduralDefault(i, j, memento, this.cfg);
+    });
+  }
+
+  // cells written by other players; a null memento makes a cell procedural
+  // again. Local history of those cells is dropped, so undoing can't bring
+  // back a spirit someone else has since taken.
+  applyRemoteCells(cells: [string, CellMemento | null][]): void {
+    for (const [key, memento] of cells) {
+      if (memento) this.cellMemory.set(key, memento);
+      else this.cellMemory.delete(key);
+    }
+    this.history.forget(cells.map(([key]) => key));
+  }
+
+  // places a personal spirit in the first empty cell next to the player,
+  // outside the undo history; null when every neighbour is taken
+  grantSpirit(spirit: Spirit): GameEvent | null {
+    const i = latToCellIndex(this.pos.lat, this.cfg);
+    const j = lngToCellIndex(this.pos.lng, this.cfg);
+    const free = ADJACENT_CELLS.find(([north, east]) =>
+      !this.getSpirit(i + north, j + east)
+    );
+    if (!free) return null;
+
+    const [ci, cj] = [i + free[0], j + free[1]];
+    this.cellMemory.set(cellKey(ci, cj), {
+      ...spirit,
+      changedAt: this.now(),
+      personal: true,
+    });
+    return this.emit({ type: "rewarded", i: ci, j: cj, ...spirit });
+  }
+
+  // moves the player without emitting an event (loading, resets)
+  placePlayer(pos: LatLng): void {
+    this.pos = { ...pos };
+  }
+
+  // a new run keeps the current config unless another one is given
+  reset(startPos: LatLng, config: GameConfig = this.cfg): void {
+    this.restore({
+      playerPos: startPos,
+      inventory: [],
+      selectedSlot: 0,
+      cellMemory: [],
+      config,
+    });
+  }
+
+  // ---- internals ----
+
+  // only a cell whose spirit the world grew (spawned or regrown) regrows,
+  // so dropping and re-picking can't give any cell a spawn roll
+  private pickup(i: number, j: number, spirit: Spirit): GameEvent {
+    const key = cellKey(i, j);
+    const memento = this.cellMemory.get(key);
+    const grown = !memento || hasRespawned(memento, this.cfg, this.now());
+    this.record("pickup", [key], () => {
+      this.slots[this.selected] = { ...spirit };
+      this.cellMemory.set(
+        key,
+        grown
+          ? { value: 0, changedAt: this.now(), regrows: true }
+          : { value: 0, changedAt: this.now() },
+      );
+    });
+    return this.emit({ type: "picked", i, j, ...spirit });
+  }
+
+  private merge(i: number, j: number, result: Spirit): GameEvent[] {
+    const key = cellKey(i, j);
+    this.record("merge", [key], () => {
+      this.cellMemory.set(key, { ...result, changedAt: this.now() });
+      this.slots[this.selected] = null;
+    });
+
+    const events = [this.emit({ type: "merged", i, j, ...result })];
+    if (result.value >= this.cfg.victoryValue) {
+      // the victorious spirit is consumed; nothing before it can come back
+      this.history.clear();
+      events.push(this.emit({ type: "victory", value: result.value }));
+    }
+    return events;
+  }
+
+  private drop(i: number, j: number, spirit: Spirit): GameEvent {
+    const key = cellKey(i, j);
+    this.record("drop", [key], () => {
+      this.cellMemory.set(key, { ...spirit, changedAt: this.now() });
+      this.slots[this.selected] = null;
+    });
+    return this.emit({ type: "dropped", i, j, ...spirit });
+  }
+
+  // fits a stored inventory into this engine's slot count
+  private setInventory(inventory: Inventory, selectedSlot: number): void {
+    this.slots = Array.from(
+      { length: this.inventorySize },
+      (_, slot) => inventory[slot] ?? null,
+    );
+    this.selected = Math.min(
+      Math.max(0, selectedSlot),
+      this.inventorySize - 1,
+    );
+  }
+
+  // COMMAND PATTERN
+  private record(
+    action: HistoryAction,
+    keys: string[],
+    execute: () => void,
+  ): void {
+    const before = this.captureDelta(keys);
+    execute();
+    this.history.push({ action, before, after: this.captureDelta(keys) });
+  }
+
+  // rebuilds the event an entry's action emitted, so observers can take back
+  // (or count again) what it did
+  private actionEvent({ action, before, after }: HistoryEntry): ActionEvent {
+    if (action === "move") {
+      return { type: "moved", pos: { ...after.playerPos } };
+    }
+
+    const [key, memento] = after.cells[0];
+    const [i, j] = key.split(",").map(Number);
+    switch (action) {
+      case "pickup":
+        return {
+          type: "picked",
+          i,
+          j,
+          ...after.inventory[after.selectedSlot]!,
+        };
+      case "merge":
+        return {
+          type: "merged",
+          i,
+          j,
+          kind: memento?.kind ?? getSpiritKind(i, j, this.cfg),
+          value: memento?.value ?? 0,
+        };
+      case "drop":
+        return {
+          type: "dropped",
+          i,
+          j,
+          ...before.inventory[before.selectedSlot]!,
+        };
+    }
+  }
+
+  private captureDelta(keys: string[]): StateDelta {
+    return {
+      playerPos: { ...this.pos },
+      inventory: [...this.slots],
+      selectedSlot: this.selected,
+      cells: keys.map((key) => [key, this.cellMemory.get(key) ?? null]),
+    };
+  }
+
+  private applyDelta(delta: StateDelta): void {
+    if (!this.tracked) this.pos = { ...delta.playerPos };
+    this.setInventory(delta.inventory, delta.selectedSlot);
+    for (const [key, memento] of delta.cells) {
+      if (memento) this.cellMemory.set(key, memento);
+      else this.cellMemory.delete(key);
+    }
+  }
+
+  private emit(event: GameEvent): GameEvent {
+    this.listeners.forEach((listener) => listener(event));
+    return event;
+  }
+}
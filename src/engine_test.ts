@@ -0,0 +1,393 @@
+import assert from "node:assert/strict";
+import { DEFAULT_CONFIG } from "./config.ts";
+import { GameEngine, type GameEvent, HISTORY_LIMIT } from "./engine.ts";
+import type { CellEntry, ChunkStorage } from "./cellMemory.ts";
+import {
+  centerPlayerOnGrid,
+  getRespawnValue,
+  getSpiritValue,
+} from "./world.ts";
+import { createEngine, ember } from "./_testing.ts";
+
+// in-memory chunk storage that records which chunks were written
+function createChunkStorage() {
+  const chunks = new Map<string, CellEntry[]>();
+  const writes: string[] = [];
+  const reads: string[] = [];
+  const storage: ChunkStorage = {
+    read: (chunk) => {
+      reads.push(chunk);
+      return chunks.get(chunk) ?? null;
+    },
+    write: (chunk, cells) => {
+      writes.push(chunk);
+      chunks.set(chunk, cells);
+    },
+    remove: (chunk) => chunks.delete(chunk),
+    list: () => Array.from(chunks.keys()),
+  };
+  return { chunks, writes, reads, storage };
+}
+
+function types(events: GameEvent[]): string[] {
+  return events.map((event) => event.type);
+}
+
+Deno.test("move snaps the player to the grid and emits moved", () => {
+  const engine = createEngine();
+  const seen: GameEvent[] = [];
+  engine.subscribe((event) => seen.push(event));
+
+  const event = engine.move(0.00023, 0.00041);
+
+  assert.equal(event.type, "moved");
+  assert.deepEqual(engine.playerPos, centerPlayerOnGrid(0.00023, 0.00041));
+  assert.deepEqual(seen, [event]);
+});
+
+Deno.test("interact picks up a spirit with empty hands", () => {
+  const engine = createEngine([["1,0", 2]]);
+
+  assert.deepEqual(types(engine.interact(1, 0)), ["picked"]);
+  assert.deepEqual(engine.heldSpirit, ember(2));
+  assert.equal(engine.getSpiritAt(1, 0), 0);
+});
+
+Deno.test("interact merges equal spirits into double the value", () => {
+  const engine = createEngine([["1,0", 2], ["2,0", 2]]);
+  engine.interact(1, 0);
+
+  const events = engine.interact(2, 0);
+
+  assert.deepEqual(events, [
+    { type: "merged", i: 2, j: 0, kind: "ember", value: 4 },
+  ]);
+  assert.equal(engine.heldSpirit, null);
+  assert.equal(engine.getSpiritAt(2, 0), 4);
+});
+
+Deno.test("interact drops the held spirit into an empty cell", () => {
+  const engine = createEngine([["1,0", 2], ["2,0", 0]]);
+  engine.interact(1, 0);
+
+  assert.deepEqual(engine.interact(2, 0), [
+    { type: "dropped", i: 2, j: 0, kind: "ember", value: 2 },
+  ]);
+  assert.equal(engine.heldSpirit, null);
+  assert.equal(engine.getSpiritAt(2, 0), 2);
+});
+
+Deno.test("interact reports empty cells and unequal spirits", () => {
+  const engine = createEngine([["1,0", 0], ["2,0", 2], ["3,0", 4]]);
+
+  assert.deepEqual(types(engine.interact(1, 0)), ["empty"]);
+
+  engine.interact(2, 0);
+  assert.deepEqual(types(engine.interact(3, 0)), ["resisted"]);
+  assert.deepEqual(engine.heldSpirit, ember(2));
+  assert.equal(engine.getSpiritAt(3, 0), 4);
+});
+
+Deno.test("cross-kind recipes make special spirits; other pairs resist", () => {
+  const engine = createEngine([
+    ["1,0", 2, "ember"],
+    ["2,0", 2, "tide"],
+    ["3,0", 6, "steam"],
+  ]);
+  engine.interact(1, 0);
+
+  assert.deepEqual(engine.interact(2, 0), [
+    { type: "merged", i: 2, j: 0, kind: "steam", value: 6 },
+  ]);
+
+  // steam has no recipe with tide, but merges with other steam
+  engine.interact(2, 0);
+  engine.cellMemory.set("1,0", { value: 6, kind: "tide" });
+  assert.deepEqual(types(engine.interact(1, 0)), ["resisted"]);
+  assert.deepEqual(types(engine.interact(3, 0)), ["merged", "victory"]);
+});
+
+Deno.test("interact refuses cells outside the interaction radius", () => {
+  const engine = createEngine([["10,0", 2]]);
+
+  assert.deepEqual(types(engine.interact(10, 0)), ["tooFar"]);
+  assert.equal(engine.heldSpirit, null);
+  assert.equal(engine.getSpiritAt(10, 0), 2);
+});
+
+Deno.test("merging up to the victory value emits victory", () => {
+  const engine = createEngine([["1,0", 4], ["2,0", 4]]);
+  engine.interact(1, 0);
+
+  const events = engine.interact(2, 0);
+
+  assert.deepEqual(types(events), ["merged", "victory"]);
+  assert.deepEqual(events[1], { type: "victory", value: 8 });
+});
+
+Deno.test("snapshot and restore round-trip the game state", () => {
+  const engine = createEngine([["1,0", 2]]);
+  engine.interact(1, 0);
+  const snapshot = engine.snapshot();
+
+  const copy = new GameEngine();
+  copy.restore(snapshot);
+
+  assert.deepEqual(copy.snapshot(), snapshot);
+  assert.deepEqual(copy.heldSpirit, ember(2));
+});
+
+Deno.test("undo and redo step through pickups and moves", () => {
+  const engine = createEngine([["1,0", 2]]);
+  const start = engine.playerPos;
+  engine.interact(1, 0);
+  engine.move(0.0002, 0);
+
+  assert.deepEqual(engine.undo(), {
+    type: "undone",
+    action: "move",
+    cells: [],
+    event: { type: "moved", pos: centerPlayerOnGrid(0.0002, 0) },
+    count: 1,
+  });
+  assert.deepEqual(engine.playerPos, start);
+
+  assert.deepEqual(engine.undo(), {
+    type: "undone",
+    action: "pickup",
+    cells: ["1,0"],
+    event: { type: "picked", i: 1, j: 0, ...ember(2) },
+    count: 1,
+  });
+  assert.equal(engine.heldSpirit, null);
+  assert.equal(engine.getSpiritAt(1, 0), 2);
+  assert.equal(engine.undo(), null);
+
+  assert.deepEqual(engine.redo(), {
+    type: "redone",
+    action: "pickup",
+    cells: ["1,0"],
+    event: { type: "picked", i: 1, j: 0, ...ember(2) },
+    count: 1,
+  });
+  assert.deepEqual(engine.heldSpirit, ember(2));
+  assert.equal(engine.getSpiritAt(1, 0), 0);
+});
+
+Deno.test("a walk is one history entry however long it is", () => {
+  const engine = createEngine([["1,0", 2]]);
+  const start = engine.playerPos;
+  engine.interact(1, 0);
+  for (let step = 1; step <= HISTORY_LIMIT + 10; step++) {
+    engine.move(0, step * 0.0001);
+  }
+
+  const undone = engine.undo();
+  assert.equal(undone?.type === "undone" && undone.count, HISTORY_LIMIT + 10);
+  assert.deepEqual(engine.playerPos, start);
+  assert.equal(engine.undo()?.type, "undone");
+  assert.equal(engine.heldSpirit, null);
+
+  // the whole walk comes back in one redo, too
+  engine.redo();
+  engine.redo();
+  assert.deepEqual(
+    engine.playerPos,
+    centerPlayerOnGrid(0, (HISTORY_LIMIT + 10) * 0.0001),
+  );
+});
+
+Deno.test("while the GPS sets the position, undo never moves the player", () => {
+  const engine = createEngine([["1,0", 2]]);
+  engine.move(0.0001, 0);
+  engine.trackPosition(true);
+  assert.equal(engine.canUndo, false);
+
+  engine.interact(1, 0);
+  engine.move(0.0003, 0);
+  const here = engine.playerPos;
+
+  // only the pickup is undone, where the player stands now
+  assert.equal(engine.undo()?.type, "undone");
+  assert.equal(engine.canUndo, false);
+  assert.deepEqual(engine.playerPos, here);
+  assert.equal(engine.heldSpirit, null);
+  assert.equal(engine.getSpiritAt(1, 0), 2);
+  engine.redo();
+  assert.deepEqual(engine.playerPos, here);
+  assert.deepEqual(engine.heldSpirit, ember(2));
+});
+
+Deno.test("undo restores procedural cells that were never in memory", () => {
+  const engine = createEngine();
+  engine.restore({ ...engine.snapshot(), inventory: [ember(1)] });
+  const empty = [1, 2, 3].find((i) => engine.getSpiritAt(i, 0) === 0)!;
+
+  engine.interact(empty, 0);
+  assert.equal(engine.cellMemory.has(`${empty},0`), true);
+
+  engine.undo();
+  assert.equal(engine.cellMemory.has(`${empty},0`), false);
+  assert.deepEqual(engine.heldSpirit, ember(1));
+});
+
+Deno.test("a victory cannot be undone", () => {
+  const engine = createEngine([["1,0", 4], ["2,0", 4]]);
+  engine.interact(1, 0);
+  engine.interact(2, 0);
+
+  assert.equal(engine.canUndo, false);
+  assert.equal(engine.undo(), null);
+});
+
+Deno.test("pickup, merge and drop use the selected inventory slot", () => {
+  const engine = createEngine([["1,0", 2], ["2,0", 4], ["3,0", 2]]);
+  engine.interact(1, 0);
+  engine.selectSlot(1);
+  engine.interact(2, 0);
+
+  assert.deepEqual(engine.inventory, [ember(2), ember(4), null, null]);
+  assert.deepEqual(engine.heldSpirit, ember(4));
+
+  engine.selectSlot(0);
+  assert.deepEqual(types(engine.interact(3, 0)), ["merged"]);
+  assert.deepEqual(engine.inventory, [null, ember(4), null, null]);
+  assert.equal(engine.selectSlot(9), null);
+});
+
+Deno.test("the world seed changes the layout but not remembered cells", () => {
+  const layout = (seed: string) => {
+    const engine = new GameEngine({ ...DEFAULT_CONFIG, seed });
+    engine.cellMemory.set("0,0", { value: 8 });
+    return Array.from({ length: 50 }, (_, i) => engine.getSpiritAt(0, i));
+  };
+
+  assert.deepEqual(layout("shared"), layout("shared"));
+  assert.notDeepEqual(layout("shared"), layout("other"));
+  assert.equal(layout("shared")[0], 8);
+  assert.equal(layout("other")[0], 8);
+});
+
+Deno.test("emptied cells regrow a spirit after the respawn cooldown", () => {
+  let now = 1_000_000;
+  // every cell spawns, so every emptied cell regrows
+  const engine = new GameEngine(
+    {
+      ...DEFAULT_CONFIG,
+      respawnCooldownMs: 1000,
+      spawnTable: [{ threshold: 1, value: 1 }],
+    },
+    () => now,
+  );
+  engine.restore({
+    playerPos: centerPlayerOnGrid(0, 0),
+    inventory: [],
+    selectedSlot: 0,
+    cellMemory: [["2,0", { value: 0 }]],
+  });
+
+  engine.interact(1, 0);
+  now += 999;
+  assert.equal(engine.getSpiritAt(1, 0), 0);
+
+  now += 1;
+  assert.equal(engine.getSpiritAt(1, 0), 1);
+
+  // picking the regrown spirit starts a new cooldown
+  engine.selectSlot(1);
+  engine.interact(1, 0);
+  assert.deepEqual(
+    engine.inventory.slice(0, 2).map((spirit) => spirit?.value),
+    [1, 1],
+  );
+  assert.equal(engine.getSpiritAt(1, 0), 0);
+
+  // a cell that started empty never regrows, however often a spirit is
+  // dropped there and picked up again
+  engine.interact(2, 0);
+  engine.interact(2, 0);
+  now += 1000;
+  assert.equal(engine.getSpiritAt(2, 0), 0);
+  assert.equal(engine.inventory[1]?.value, 1);
+});
+
+Deno.test("emptied cells regrow about as often as fresh cells spawn", () => {
+  const cells = Array.from({ length: 2000 }, (_, i) => i);
+  const regrown = cells.filter((i) => getRespawnValue(i, 0, 1) > 0).length;
+  const spawned = cells.filter((i) => getSpiritValue(i, 0) > 0).length;
+
+  assert.ok(Math.abs(regrown - spawned) < cells.length * 0.05);
+  assert.ok(regrown < cells.length / 2);
+});
+
+Deno.test("cell memory flushes only dirty chunks and loads them lazily", () => {
+  const { chunks, writes, storage } = createChunkStorage();
+  const engine = createEngine();
+  engine.cellMemory.attach(storage);
+
+  engine.cellMemory.set("1,0", { value: 2 });
+  engine.cellMemory.set("100,-100", { value: 4 });
+  engine.cellMemory.flush();
+  assert.deepEqual(writes.sort(), ["0,0", "1,-2"]);
+
+  writes.length = 0;
+  engine.cellMemory.set("2,0", { value: 8 });
+  engine.cellMemory.flush();
+  assert.deepEqual(writes, ["0,0"]);
+
+  const reloaded = createEngine();
+  reloaded.cellMemory.attach(storage);
+  assert.equal(reloaded.getSpiritAt(1, 0), 2);
+  assert.equal(reloaded.getSpiritAt(100, -100), 4);
+  assert.equal(reloaded.cellMemory.entries().length, 3);
+
+  // clearing forgets stored chunks too
+  reloaded.cellMemory.clear();
+  reloaded.cellMemory.flush();
+  assert.equal(chunks.size, 0);
+});
+
+Deno.test("cell memory looks for a chunk that was never stored only once", () => {
+  const { reads, storage } = createChunkStorage();
+  const engine = createEngine();
+  engine.cellMemory.attach(storage);
+
+  for (let n = 0; n < 3; n++) engine.getSpiritAt(200, 200);
+  assert.deepEqual(reads, ["3,3"]);
+
+  // writing there makes it a chunk like any other
+  engine.cellMemory.set("200,200", { value: 4 });
+  engine.cellMemory.flush();
+  const reloaded = createEngine();
+  reloaded.cellMemory.attach(storage);
+  assert.equal(reloaded.getSpiritAt(200, 200), 4);
+});
+
+Deno.test("pruning forgets cells back at their procedural value", () => {
+  const engine = createEngine();
+  engine.cellMemory.attach(createChunkStorage().storage);
+  const cells = Array.from({ length: 20 }, (_, i) => i + 1);
+  const spirit = cells.find((i) => getSpiritValue(i, 0) > 0);
+  const [empty, emptied] = cells.filter((i) => getSpiritValue(i, 0) === 0);
+  assert.ok(spirit !== undefined && emptied !== undefined);
+
+  engine.cellMemory.set(`${empty},0`, { value: 0 });
+  engine.cellMemory.set(`${emptied},0`, {
+    value: 0,
+    changedAt: 1,
+    regrows: true,
+  });
+  engine.cellMemory.set(`${spirit},0`, {
+    value: getSpiritValue(spirit, 0),
+    changedAt: 1,
+  });
+
+  const before = cells.map((i) => engine.getSpiritAt(i, 0));
+  engine.pruneDefaultCells();
+
+  assert.equal(engine.cellMemory.has(`${empty},0`), false);
+  assert.equal(engine.cellMemory.has(`${spirit},0`), false);
+  // an emptied cell can still regrow, so it has to be remembered
+  assert.equal(engine.cellMemory.has(`${emptied},0`), true);
+  assert.deepEqual(cells.map((i) => engine.getSpiritAt(i, 0)), before);
+});
@@ -0,0 +1,235 @@
+import { CHUNK_SIZE, chunkKeyForCell } from "./cellMemory.ts";
+import { cellKey, type WorldRules } from "./world.ts";
+
+// --- Constants ---------------------------------------------------
+
+const METERS_PER_DEGREE = 111_320;
+const CHUNK_BYTES = CHUNK_SIZE * CHUNK_SIZE / 8;
+
+// --- Types -------------------------------------------------------
+
+export interface ExplorationStats {
+  // cells the player actually stood in
+  cellsVisited: number;
+  // cells cleared of fog (everything in reach of a visited cell)
+  cellsExplored: number;
+  distanceMeters: number;
+  // ground covered by the explored cells
+  areaSqMeters: number;
+}
+
+// MEMENTO PATTERN
+// one bit per cell, CHUNK_SIZE x CHUNK_SIZE cells per base64 chunk
+export interface ExplorationMemento {
+  visited: [string, string][];
+  revealed: [string, string][];
+  distanceMeters: number;
+  areaSqMeters: number;
+}
+
+// --- Bitsets -----------------------------------------------------
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
+
+function bitIndex(i: number, j: number): number {
+  return mod(i, CHUNK_SIZE) * CHUNK_SIZE + mod(j, CHUNK_SIZE);
+}
+
+function countBits(bytes: Uint8Array): number {
+  let count = 0;
+  for (let byte of bytes) {
+    for (; byte; byte &= byte - 1) count++;
+  }
+  return count;
+}
+
+function encodeChunk(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function decodeChunk(text: string): Uint8Array | null {
+  try {
+    const bytes = Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+    return bytes.length === CHUNK_BYTES ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+// FLYWEIGHT PATTERN
+// a set of cells as one bitset per chunk
+class CellBitset {
+  private chunks = new Map<string, Uint8Array>();
+  private total = 0;
+
+  get size(): number {
+    return this.total;
+  }
+
+  has(i: number, j: number): boolean {
+    const bytes = this.chunks.get(chunkKeyForCell(cellKey(i, j)));
+    if (!bytes) return false;
+    const bit = bitIndex(i, j);
+    return (bytes[bit >> 3] & (1 << (bit & 7))) !== 0;
+  }
+
+  // true if the cell was not in the set yet
+  add(i: number, j: number): boolean {
+    const chunk = chunkKeyForCell(cellKey(i, j));
+    let bytes = this.chunks.get(chunk);
+    if (!bytes) {
+      bytes = new Uint8Array(CHUNK_BYTES);
+      this.chunks.set(chunk, bytes);
+    }
+    const bit = bitIndex(i, j);
+    const mask = 1 << (bit & 7);
+    if (bytes[bit >> 3] & mask) return false;
+    bytes[bit >> 3] |= mask;
+    this.total++;
+    return true;
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.total = 0;
+  }
+
+  save(): [string, string][] {
+    return Array.from(
+      this.chunks,
+      ([chunk, bytes]) => [chunk, encodeChunk(bytes)],
+    );
+  }
+
+  load(entries: [string, string][]): void {
+    this.clear();
+    for (const [chunk, text] of entries) {
+      const bytes = decodeChunk(text);
+      if (!bytes) continue;
+      this.chunks.set(chunk, bytes);
+      this.total += countBits(bytes);
+    }
+  }
+}
+
+// --- Exploration map ---------------------------------------------
+
+// ground area of one cell; cells narrow towards the poles
+export function cellAreaSqMeters(i: number, rules: WorldRules): number {
+  const size = rules.cellSizeDeg * METERS_PER_DEGREE;
+  const lat = (i + 0.5) * rules.cellSizeDeg;
+  return size * size * Math.cos(lat * Math.PI / 180);
+}
+
+// Where the player has been. Standing in a cell reveals everything within
+// reach of it; the rest of the world stays under fog.
+export class ExplorationMap {
+  private visited = new CellBitset();
+  private revealed = new CellBitset();
+  private distance = 0;
+  private area = 0;
+
+  get stats(): ExplorationStats {
+    return {
+      cellsVisited: this.visited.size,
+      cellsExplored: this.revealed.size,
+      distanceMeters: this.distance,
+      areaSqMeters: this.area,
+    };
+  }
+
+  isVisited(i: number, j: number): boolean {
+    return this.visited.has(i, j);
+  }
+
+  isRevealed(i: number, j: number): boolean {
+    return this.revealed.has(i, j);
+  }
+
+  // returns true when the cell was visited for the first time
+  visit(i: number, j: number, rules: WorldRules): boolean {
+    if (!this.visited.add(i, j)) return false;
+
+    const radius = rules.interactionRadiusCells;
+    for (let di = -radius; di <= radius; di++) {
+      for (let dj = -radius; dj <= radius; dj++) {
+        if (this.revealed.add(i + di, j + dj)) {
+          this.area += cellAreaSqMeters(i + di, rules);
+        }
+      }
+    }
+    return true;
+  }
+
+  walk(meters: number): void {
+    if (Number.isFinite(meters) && meters > 0) this.distance += meters;
+  }
+
+  clear(): void {
+    this.visited.clear();
+    this.revealed.clear();
+    this.distance = 0;
+    this.area = 0;
+  }
+
+  // MEMENTO PATTERN
+  save(): ExplorationMemento {
+    return {
+      visited: this.visited.save(),
+      revealed: this.revealed.save(),
+      distanceMeters: this.distance,
+      areaSqMeters: this.area,
+    };
+  }
+
+  // MEMENTO PATTERN
+  load(memento: ExplorationMemento): void {
+    this.visited.load(memento.visited);
+    this.revealed.load(memento.revealed);
+    this.distance = memento.distanceMeters;
+    this.area = memento.areaSqMeters;
+  }
+}
+
+// --- Validation --------------------------------------------------
+
+const CHUNK_KEY_PATTERN = /^-?\d+,-?\d+$/;
+
+function isChunkList(value: unknown): value is [string, string][] {
+  return Array.isArray(value) &&
+    value.every((entry) =>
+      Array.isArray(entry) &&
+      typeof entry[0] === "string" && CHUNK_KEY_PATTERN.test(entry[0]) &&
+      typeof entry[1] === "string"
+    );
+}
+
+function isDistance(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+// returns null when the stored exploration can't be trusted
+export function parseExploration(value: unknown): ExplorationMemento | null {
+  if (typeof value !== "object" || value === null) return null;
+  const data = value as Record<string, unknown>;
+
+  if (
+    !isChunkList(data.visited) || !isChunkList(data.revealed) ||
+    !isDistance(data.distanceMeters) || !isDistance(data.areaSqMeters)
+  ) {
+    return null;
+  }
+
+  return {
+    visited: data.visited,
+    revealed: data.revealed,
+    distanceMeters: data.distanceMeters,
+    areaSqMeters: data.areaSqMeters,
+  };
+}
+
+export function createEmptyExploration(): ExplorationMemento {
+  return { visited: [], revealed: [], distanceMeters: 0, areaSqMeters: 0 };
+}
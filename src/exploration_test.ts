@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { DEFAULT_CONFIG } from "./config.ts";
+import { ExplorationMap, parseExploration } from "./exploration.ts";
+
+Deno.test("visiting a cell clears the fog within reach and counts it once", () => {
+  const rules = { ...DEFAULT_CONFIG, interactionRadiusCells: 1 };
+  const map = new ExplorationMap();
+
+  assert.ok(map.visit(0, 0, rules));
+  assert.ok(map.isRevealed(1, -1));
+  assert.ok(!map.isRevealed(2, 0));
+  assert.ok(!map.visit(0, 0, rules));
+
+  // the step north overlaps three of the nine cells already revealed
+  map.visit(1, 0, rules);
+  map.walk(11);
+  map.walk(Number.NaN);
+  const stats = map.stats;
+  assert.equal(stats.cellsVisited, 2);
+  assert.equal(stats.cellsExplored, 12);
+  assert.equal(stats.distanceMeters, 11);
+  assert.ok(stats.areaSqMeters > 0);
+
+  const memento = parseExploration(JSON.parse(JSON.stringify(map.save())));
+  assert.ok(memento);
+  const restored = new ExplorationMap();
+  restored.load(memento);
+  assert.deepEqual(restored.stats, stats);
+  assert.ok(restored.isVisited(1, 0));
+  assert.equal(parseExploration({ ...memento, distanceMeters: -1 }), null);
+});
@@ -0,0 +1,163 @@
+import {
+  cellKey,
+  type LatLng,
+  latToCellIndex,
+  lngToCellIndex,
+  type WorldRules,
+} from "./world.ts";
+import { distanceMeters } from "./track.ts";
+
+// --- Constants ---------------------------------------------------
+
+// fixes less accurate than this (meters) are ignored
+export const MAX_FIX_ACCURACY_M = 35;
+// at or below this the signal counts as locked
+export const LOCKED_ACCURACY_M = 15;
+export const SMOOTHING_WINDOW = 5;
+// the smoothed position must stay in a new cell this long before moving
+export const CELL_DWELL_MS = 2000;
+
+// --- Types -------------------------------------------------------
+
+export type GpsState = "searching" | "weak" | "locked";
+
+export interface GpsFix extends LatLng {
+  accuracy: number;
+  // ms timestamp of the fix
+  time: number;
+}
+
+// --- Filter ------------------------------------------------------
+
+// Turns raw GPS fixes into deliberate cell changes: drops inaccurate fixes,
+// smooths the rest and waits for a short dwell before leaving the cell.
+export class GpsFilter {
+  private recent: GpsFix[] = [];
+  private cell: string | null = null;
+  private pending: { cell: string; since: number } | null = null;
+  private current: GpsState = "searching";
+
+  constructor(private getRules: () => WorldRules) {}
+
+  get state(): GpsState {
+    return this.current;
+  }
+
+  // a lost signal starts the search over; the player stays in their cell
+  lose(): void {
+    this.current = "searching";
+    this.recent = [];
+    this.pending = null;
+  }
+
+  // returns where the player should move, or null to stay put. A move only
+  // counts once accept agrees; until then later fixes keep offering it
+  push(
+    fix: GpsFix,
+    accept: (pos: LatLng, time: number) => boolean = () => true,
+  ): LatLng | null {
+    if (!(fix.accuracy <= MAX_FIX_ACCURACY_M)) {
+      this.current = "weak";
+      return null;
+    }
+    this.current = fix.accuracy <= LOCKED_ACCURACY_M ? "locked" : "weak";
+
+    this.recent.push(fix);
+    if (this.recent.length > SMOOTHING_WINDOW) this.recent.shift();
+
+    const pos = this.smoothed();
+    const rules = this.getRules();
+    const cell = cellKey(
+      latToCellIndex(pos.lat, rules),
+      lngToCellIndex(pos.lng, rules),
+    );
+
+    if (cell === this.cell) {
+      this.pending = null;
+      return null;
+    }
+
+    // the first good fix places the player right away
+    if (this.cell !== null) {
+      if (this.pending?.cell !== cell) {
+        this.pending = { cell, since: fix.time };
+      }
+      if (fix.time - this.pending.since < CELL_DWELL_MS) return null;
+    }
+
+    if (!accept(pos, fix.time)) return null;
+    this.cell = cell;
+    this.pending = null;
+    return pos;
+  }
+
+  // accuracy-weighted moving average: precise fixes count more
+  private smoothed(): LatLng {
+    let total = 0;
+    let lat = 0;
+    let lng = 0;
+    for (const fix of this.recent) {
+      const weight = 1 / Math.max(1, fix.accuracy) ** 2;
+      total += weight;
+      lat += fix.lat * weight;
+      lng += fix.lng * weight;
+    }
+    return { lat: lat / total, lng: lng / total };
+  }
+}
+
+// --- Speed limit -------------------------------------------------
+
+// faster than any car on a city street; beyond this a jump is spoofed
+export const MAX_GEO_SPEED_MPS = 45;
+// GPS error that is always forgiven on top of the speed allowance
+export const SPEED_SLACK_M = MAX_FIX_ACCURACY_M * 2;
+
+// the last geo position that passed the speed check
+export interface GeoAnchor extends LatLng {
+  time: number;
+}
+
+export type SpeedCheck =
+  | { ok: true }
+  | { ok: false; distance: number; speedMps: number; waitMs: number };
+
+// Rejects geo moves that would need an implausible speed since the last
+// trusted fix. The anchor only follows geo moves, so positions reached with
+// the keyboard never count as real travel.
+export class SpeedGuard {
+  constructor(private current: GeoAnchor | null = null) {}
+
+  get anchor(): GeoAnchor | null {
+    return this.current;
+  }
+
+  // the device has one real position whatever the save slot, so a loaded
+  // anchor only replaces a more recent one
+  adopt(anchor: GeoAnchor | null): void {
+    if (anchor && !(this.current && this.current.time >= anchor.time)) {
+      this.current = { lat: anchor.lat, lng: anchor.lng, time: anchor.time };
+    }
+  }
+
+  // accepted moves become the new anchor
+  check(pos: LatLng, time: number): SpeedCheck {
+    const anchor = this.current;
+    if (anchor) {
+      const elapsed = Math.max(0, time - anchor.time);
+      const distance = distanceMeters(anchor, pos);
+      const allowed = SPEED_SLACK_M + MAX_GEO_SPEED_MPS * elapsed / 1000;
+      if (distance > allowed) {
+        return {
+          ok: false,
+          distance,
+          speedMps: distance / Math.max(1, elapsed / 1000),
+          waitMs: (distance - allowed) / MAX_GEO_SPEED_MPS * 1000,
+        };
+      }
+    }
+
+    this.current = { lat: pos.lat, lng: pos.lng, time };
+    return { ok: true };
+  }
+}
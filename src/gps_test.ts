@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { DEFAULT_CONFIG } from "./config.ts";
+import { CELL_DWELL_MS, GpsFilter, SpeedGuard } from "./gps.ts";
+import type { LatLng } from "./world.ts";
+
+Deno.test("the GPS filter drops poor fixes and waits before changing cells", () => {
+  const filter = new GpsFilter(() => DEFAULT_CONFIG);
+  assert.equal(filter.state, "searching");
+
+  const first = filter.push({
+    lat: 0.00005,
+    lng: 0.00005,
+    accuracy: 5,
+    time: 0,
+  });
+  assert.ok(first && Math.abs(first.lat - 0.00005) < 1e-12);
+  assert.equal(filter.state, "locked");
+
+  // a wild indoor fix is ignored entirely
+  const wild = { lat: 0.01, lng: 0.01, accuracy: 200, time: 500 };
+  assert.equal(filter.push(wild), null);
+  assert.equal(filter.state, "weak");
+
+  // walking north: the smoothed position has to settle in the next cell
+  let moved = null;
+  let time = 1000;
+  while (!moved && time < 20_000) {
+    moved = filter.push({ lat: 0.00015, lng: 0.00005, accuracy: 10, time });
+    time += 1000;
+  }
+  assert.ok(moved && moved.lat >= 0.0001 && moved.lat < 0.0002);
+  assert.ok(time - 1000 >= CELL_DWELL_MS);
+
+  filter.lose();
+  assert.equal(filter.state, "searching");
+});
+
+Deno.test("the speed guard rejects teleports until enough time has passed", () => {
+  const guard = new SpeedGuard();
+  const home = { lat: 37, lng: -122 };
+  const nextStreet = { lat: 37.001, lng: -122 };
+  const otherCity = { lat: 38, lng: -122 };
+
+  assert.equal(guard.check(home, 0).ok, true);
+  assert.equal(guard.check(nextStreet, 60_000).ok, true);
+
+  const teleport = guard.check(otherCity, 120_000);
+  assert.equal(teleport.ok, false);
+  assert.ok(!teleport.ok && teleport.waitMs > 0);
+  // a rejected move leaves the anchor where it was
+  assert.deepEqual(guard.anchor, { ...nextStreet, time: 60_000 });
+
+  // two hours later the drive is plausible
+  assert.equal(guard.check(otherCity, 2 * 60 * 60 * 1000).ok, true);
+});
+
+Deno.test("a move the speed guard refuses is offered again until it passes", () => {
+  const home = { lat: 0.00005, lng: 0.00005 };
+  const guard = new SpeedGuard({ ...home, time: 0 });
+  const filter = new GpsFilter(() => DEFAULT_CONFIG);
+  let refused = 0;
+  const accept = (pos: LatLng, time: number) => {
+    const ok = guard.check(pos, time).ok;
+    if (!ok) refused++;
+    return ok;
+  };
+
+  assert.ok(filter.push({ ...home, accuracy: 5, time: 0 }, accept));
+
+  // a jump of about a kilometre, then standing still in the far cell
+  let moved = null;
+  let time = 1000;
+  for (; !moved && time < 60_000; time += 1000) {
+    moved = filter.push(
+      { lat: 0.01, lng: 0.00005, accuracy: 5, time },
+      accept,
+    );
+  }
+
+  assert.ok(refused > 0);
+  assert.ok(moved && Math.abs(moved.lat - 0.01) < 1e-9);
+  assert.deepEqual(guard.anchor, { ...moved, time: time - 1000 });
+  // once accepted the far cell is home: no second move
+  assert.equal(
+    filter.push({ lat: 0.01, lng: 0.00005, accuracy: 5, time }, accept),
+    null,
+  );
+});
+
+Deno.test("a loaded geo anchor never replaces a newer one", () => {
+  const guard = new SpeedGuard();
+  guard.adopt(null);
+  assert.equal(guard.anchor, null);
+
+  guard.adopt({ lat: 1, lng: 1, time: 100 });
+  guard.adopt({ lat: 2, lng: 2, time: 50 });
+  assert.deepEqual(guard.anchor, { lat: 1, lng: 1, time: 100 });
+
+  guard.adopt({ lat: 3, lng: 3, time: 200 });
+  assert.deepEqual(guard.anchor, { lat: 3, lng: 3, time: 200 });
+});
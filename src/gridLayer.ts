@@ -0,0 +1,312 @@
+// @deno-types="npm:@types/leaflet"
+import L from "leaflet";
+import {
+  cellKey,
+  getCellLatLng,
+  getExpectedSpiritValue,
+  latToCellIndex,
+  lngToCellIndex,
+  type SpiritKind,
+  type WorldRules,
+} from "./world.ts";
+import {
+  type CellBounds,
+  type CellTheme,
+  drawCellCursor,
+  drawCellLabel,
+  drawFog,
+  drawHeatmapTile,
+  updateCellAppearance,
+} from "./ui.ts";
+
+// --- Types -------------------------------------------------------
+
+// what a cell looks like; a repaint is needed only when this changes
+export interface GridCell {
+  value: number;
+  // null for an empty cell
+  kind: SpiritKind | null;
+  nearby: boolean;
+  // not yet explored by the player
+  fogged: boolean;
+  // under the keyboard cursor
+  focused: boolean;
+}
+
+export interface GridLayerSource {
+  getRules(): WorldRules;
+  getCell(i: number, j: number): GridCell;
+  onCellClick(i: number, j: number): void;
+}
+
+interface CellRange {
+  startI: number;
+  endI: number;
+  startJ: number;
+  endJ: number;
+}
+
+// --- Grid canvas layer -------------------------------------------
+
+// below the overlay pane so the player marker stays on top
+const GRID_PANE = "gridPane";
+const GRID_PANE_Z_INDEX = "350";
+
+// level of detail, by how wide one cell is on screen
+const DETAIL_MIN_CELL_PX = 12;
+const LABEL_MIN_CELL_PX = 30;
+
+// zoomed out, cells are aggregated into tiles about this wide, each
+// estimated from HEATMAP_SAMPLES x HEATMAP_SAMPLES evenly spread cells
+const HEATMAP_TILE_PX = 24;
+const HEATMAP_SAMPLES = 6;
+
+// a tile this many times richer than an average one shows at full intensity
+const HEATMAP_RICHNESS = 2;
+
+const EMPTY_RANGE: CellRange = { startI: 0, endI: -1, startJ: 0, endJ: -1 };
+
+// One canvas for the whole visible grid. Moving the map repaints it in a
+// single pass; update() and refreshCell() repaint only the cells whose value
+// or reach changed. Clicks are hit-tested against the grid math, not layers.
+// When cells get too small to read, a heatmap of spirit value replaces them.
+export class GridCanvasLayer extends L.Layer {
+  private map: L.Map | null = null;
+  private canvas = document.createElement("canvas");
+  private ctx = this.canvas.getContext("2d")!;
+  private drawn = new Map<string, GridCell>();
+  private range: CellRange = EMPTY_RANGE;
+  private showLabels = true;
+  private theme: CellTheme = "standard";
+
+  constructor(private readonly source: GridLayerSource) {
+    super();
+  }
+
+  override onAdd(map: L.Map): this {
+    this.map = map;
+    const pane = map.getPane(GRID_PANE) ?? map.createPane(GRID_PANE);
+    pane.style.zIndex = GRID_PANE_Z_INDEX;
+    pane.style.pointerEvents = "none";
+
+    this.canvas.className = "gridCanvas leaflet-zoom-hide";
+    pane.appendChild(this.canvas);
+
+    map.on("moveend resize", this.redraw, this);
+    map.on("click", this.handleClick, this);
+    this.redraw();
+    return this;
+  }
+
+  override onRemove(map: L.Map): this {
+    map.off("moveend resize", this.redraw, this);
+    map.off("click", this.handleClick, this);
+    this.canvas.remove();
+    this.drawn.clear();
+    this.map = null;
+    return this;
+  }
+
+  // repaints every visible cell (after panning, resizing or loading a run)
+  redraw(): void {
+    if (!this.map) return;
+
+    const size = this.map.getSize();
+    const ratio = globalThis.devicePixelRatio || 1;
+    L.DomUtil.setPosition(
+      this.canvas,
+      this.map.containerPointToLayerPoint([0, 0]),
+    );
+    this.canvas.width = size.x * ratio;
+    this.canvas.height = size.y * ratio;
+    this.canvas.style.width = `${size.x}px`;
+    this.canvas.style.height = `${size.y}px`;
+    this.ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    const range = this.visibleRange();
+    const cellPx = this.cellBounds(range.startI, range.startJ).width;
+    this.drawn.clear();
+
+    if (cellPx < DETAIL_MIN_CELL_PX) {
+      this.range = EMPTY_RANGE;
+      this.ctx.clearRect(0, 0, size.x, size.y);
+      this.paintHeatmap(range, cellPx);
+      return;
+    }
+
+    this.range = range;
+    this.showLabels = cellPx >= LABEL_MIN_CELL_PX;
+    this.forEachCell(this.range, (i, j) => {
+      this.drawn.set(cellKey(i, j), this.source.getCell(i, j));
+    });
+    this.paint(this.range);
+  }
+
+  setTheme(theme: CellTheme): void {
+    this.theme = theme;
+    this.redraw();
+  }
+
+  // repaints only the visible cells whose look changed; the zoomed-out
+  // heatmap is an estimate and waits for the next pan or zoom
+  update(): void {
+    this.forEachCell(this.range, (i, j) => this.refreshCell(i, j));
+  }
+
+  refreshCell(i: number, j: number): void {
+    const key = cellKey(i, j);
+    const drawn = this.drawn.get(key);
+    if (!drawn) return;
+
+    const cell = this.source.getCell(i, j);
+    if (
+      cell.value === drawn.value && cell.kind === drawn.kind &&
+      cell.nearby === drawn.nearby && cell.fogged === drawn.fogged &&
+      cell.focused === drawn.focused
+    ) {
+      return;
+    }
+    this.drawn.set(key, cell);
+
+    // borders and labels spill into neighbours, so repaint the 3x3 block
+    // clipped to this cell plus half a cell around it
+    const { x, y, width, height } = this.cellBounds(i, j);
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x - width / 2, y - height / 2, width * 2, height * 2);
+    ctx.clip();
+    ctx.clearRect(x - width / 2, y - height / 2, width * 2, height * 2);
+    this.paint({
+      startI: Math.max(i - 1, this.range.startI),
+      endI: Math.min(i + 1, this.range.endI),
+      startJ: Math.max(j - 1, this.range.startJ),
+      endJ: Math.min(j + 1, this.range.endJ),
+    });
+    ctx.restore();
+  }
+
+  // ---- internals ----
+
+  // cells first, then fog, then labels on top (as the old tooltips were);
+  // fog hides the labels of unexplored cells. The cursor goes over it all.
+  private paint(range: CellRange): void {
+    this.forEachCell(range, (i, j) => {
+      const { value, kind, nearby, fogged } = this.drawn.get(cellKey(i, j))!;
+      const spirit = kind && value > 0 ? { kind, value } : null;
+      const bounds = this.cellBounds(i, j);
+      updateCellAppearance(this.ctx, bounds, spirit, nearby, this.theme);
+      if (fogged) drawFog(this.ctx, bounds);
+    });
+    this.forEachCell(range, (i, j) => {
+      const { value, kind, fogged, focused } = this.drawn.get(cellKey(i, j))!;
+      const bounds = this.cellBounds(i, j);
+      if (this.showLabels && kind && value > 0 && !fogged) {
+        drawCellLabel(this.ctx, bounds, { kind, value });
+      }
+      if (focused) drawCellCursor(this.ctx, bounds, this.theme);
+    });
+  }
+
+  // tiles are aligned to multiples of their size so panning keeps them stable
+  private paintHeatmap(range: CellRange, cellPx: number): void {
+    const tileCells = 2 ** Math.ceil(Math.log2(HEATMAP_TILE_PX / cellPx));
+    const expected = getExpectedSpiritValue(this.source.getRules()) || 1;
+    const tiles = {
+      startI: Math.floor(range.startI / tileCells),
+      endI: Math.floor(range.endI / tileCells),
+      startJ: Math.floor(range.startJ / tileCells),
+      endJ: Math.floor(range.endJ / tileCells),
+    };
+
+    this.forEachCell(tiles, (ti, tj) => {
+      const tile = {
+        startI: ti * tileCells,
+        endI: (ti + 1) * tileCells - 1,
+        startJ: tj * tileCells,
+        endJ: (tj + 1) * tileCells - 1,
+      };
+      const { average, fog } = this.sample(tile, tileCells);
+      const bounds = this.rangeBounds(tile);
+      drawHeatmapTile(
+        this.ctx,
+        bounds,
+        Math.min(1, average / (expected * HEATMAP_RICHNESS)),
+      );
+      if (fog > 0) drawFog(this.ctx, bounds, fog);
+    });
+  }
+
+  // average spirit value and fogged share of a square of cells, from an
+  // even sample
+  private sample(
+    range: CellRange,
+    cells: number,
+  ): { average: number; fog: number } {
+    const step = Math.max(1, cells / HEATMAP_SAMPLES);
+    let total = 0;
+    let fogged = 0;
+    let count = 0;
+    for (let di = step / 2; di < cells; di += step) {
+      for (let dj = step / 2; dj < cells; dj += step) {
+        const cell = this.source.getCell(
+          range.startI + Math.floor(di),
+          range.startJ + Math.floor(dj),
+        );
+        total += cell.value;
+        if (cell.fogged) fogged++;
+        count++;
+      }
+    }
+    return { average: total / count, fog: fogged / count };
+  }
+
+  private visibleRange(): CellRange {
+    const bounds = this.map!.getBounds();
+    const rules = this.source.getRules();
+    return {
+      startI: latToCellIndex(bounds.getSouth(), rules),
+      endI: latToCellIndex(bounds.getNorth(), rules),
+      startJ: lngToCellIndex(bounds.getWest(), rules),
+      endJ: lngToCellIndex(bounds.getEast(), rules),
+    };
+  }
+
+  private forEachCell(
+    range: CellRange,
+    fn: (i: number, j: number) => void,
+  ): void {
+    for (let i = range.startI; i <= range.endI; i++) {
+      for (let j = range.startJ; j <= range.endJ; j++) fn(i, j);
+    }
+  }
+
+  private cellBounds(i: number, j: number): CellBounds {
+    return this.rangeBounds({ startI: i, endI: i, startJ: j, endJ: j });
+  }
+
+  // a block of cells as a rectangle in canvas (container) pixels
+  private rangeBounds(range: CellRange): CellBounds {
+    const rules = this.source.getRules();
+    const { north, west } = getCellLatLng(range.endI, range.startJ, rules);
+    const { south, east } = getCellLatLng(range.startI, range.endJ, rules);
+    const topLeft = this.map!.latLngToContainerPoint([north, west]);
+    const bottomRight = this.map!.latLngToContainerPoint([south, east]);
+    return {
+      x: topLeft.x,
+      y: topLeft.y,
+      width: bottomRight.x - topLeft.x,
+      height: bottomRight.y - topLeft.y,
+    };
+  }
+
+  // only individual cells can be clicked; the heatmap is for planning
+  private handleClick(e: L.LeafletMouseEvent): void {
+    if (this.drawn.size === 0) return;
+    const rules = this.source.getRules();
+    this.source.onCellClick(
+      latToCellIndex(e.latlng.lat, rules),
+      lngToCellIndex(e.latlng.lng, rules),
+    );
+  }
+}
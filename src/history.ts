@@ -0,0 +1,118 @@
+import type { CellMemento, LatLng, Spirit } from "./world.ts";
+
+// --- Types -------------------------------------------------------
+
+export type HistoryAction = "move" | "pickup" | "merge" | "drop";
+
+// the parts of the game state touched by one command;
+// a null memento means the cell was procedural (not in memory)
+export interface StateDelta {
+  playerPos: LatLng;
+  inventory: (Spirit | null)[];
+  selectedSlot: number;
+  cells: [string, CellMemento | null][];
+}
+
+export interface HistoryEntry {
+  action: HistoryAction;
+  before: StateDelta;
+  after: StateDelta;
+  // consecutive moves share one entry; how many it stands for (default 1)
+  moves?: number;
+}
+
+export interface HistoryState {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+// --- Command history ---------------------------------------------
+
+export function countMoves(entry: HistoryEntry): number {
+  return entry.moves ?? 1;
+}
+
+// COMMAND PATTERN
+// Two bounded stacks of executed commands. The oldest entries fall off once
+// the limit is reached. A walk is a single entry, so route steps and GPS
+// fixes can't push the other actions off the stack.
+export class CommandHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  push(entry: HistoryEntry): void {
+    const last = this.undoStack.at(-1);
+    if (entry.action === "move" && last?.action === "move") {
+      this.undoStack[this.undoStack.length - 1] = {
+        ...last,
+        after: entry.after,
+        moves: countMoves(last) + countMoves(entry),
+      };
+    } else {
+      this.undoStack.push(entry);
+      if (this.undoStack.length > this.limit) this.undoStack.shift();
+    }
+    this.redoStack.length = 0;
+  }
+
+  undo(): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  redo(): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  clear(): void {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+  }
+
+  // walks are left out of the history while the position follows the GPS
+  forgetMoves(): void {
+    const isAction = (entry: HistoryEntry) => entry.action !== "move";
+    this.undoStack = this.undoStack.filter(isAction);
+    this.redoStack = this.redoStack.filter(isAction);
+  }
+
+  // drops every entry touching one of the cells, and on each stack the
+  // entries beyond it: their deltas assume the dropped entry is replayed
+  forget(keys: string[]): void {
+    const touched = new Set(keys);
+    const cut = (stack: HistoryEntry[]) =>
+      stack.slice(
+        stack.findLastIndex((entry) =>
+          entry.before.cells.some(([key]) => touched.has(key))
+        ) + 1,
+      );
+    this.undoStack = cut(this.undoStack);
+    this.redoStack = cut(this.redoStack);
+  }
+
+  // MEMENTO PATTERN
+  save(): HistoryState {
+    return { undo: [...this.undoStack], redo: [...this.redoStack] };
+  }
+
+  // MEMENTO PATTERN
+  load(state: HistoryState): void {
+    this.undoStack = state.undo.slice(-this.limit);
+    this.redoStack = state.redo.slice(-this.limit);
+  }
+}
@@ -10,53 +10,152 @@ import {
   type CellMemento,
   centerPlayerOnGrid,
   getCellCenter,
-  getCellLatLng,
-  getSpiritAt,
-  isCellNearPlayer,
+  type LatLng,
   latToCellIndex,
   lngToCellIndex,
   TEXT_DECIMALS,
   WORLD_ORIGIN,
 } from "./world.ts";
 
-import { createDiv, createWinOverlay, updateCellAppearance } from "./ui.ts";
+import { GameEngine, type GameEvent } from "./engine.ts";
+import type { GameConfig } from "./config.ts";
+
+import {
+  type CellTheme,
+  createDiv,
+  createDpad,
+  createWinOverlay,
+  describeKind,
+  describeQuestGoal,
+  downloadTextFile,
+  pickTextFile,
+  renderAchievements,
+  renderExplorationStats,
+  renderGpsStatus,
+  renderHotbar,
+  renderNewGamePanel,
+  renderQuestTracker,
+  renderReplayControls,
+  renderSlotList,
+  showToast,
+} from "./ui.ts";
+
+import { GridCanvasLayer } from "./gridLayer.ts";
 
 import {
   ButtonMovementController,
   GeoMovementController,
+  KEY_DIRECTIONS,
   type MovementController,
+  ReplayMovementController,
+  type ReplayOptions,
 } from "./movement.ts";
 
+import { distanceMeters, parseTrack, type Track } from "./track.ts";
+import { ExplorationMap } from "./exploration.ts";
+import { type Achievement, LifetimeTracker } from "./achievements.ts";
+import { CellCursor, type CellIndex } from "./cellCursor.ts";
+import {
+  isQuestComplete,
+  QuestBoard,
+  type QuestContext,
+  questDay,
+} from "./quests.ts";
+import { SpeedGuard } from "./gps.ts";
+
+import {
+  type LoadResult,
+  type MovementMode,
+  parseSave,
+  type SaveFile,
+  serializeSave,
+} from "./save.ts";
+
+import { SaveSlotManager } from "./slots.ts";
+import type { WorkerReply, WorkerRequest } from "./tileCache.ts";
+import {
+  DEFAULT_SYNC_URL,
+  SyncClient,
+  WebSocketTransport,
+  worldId,
+} from "./sync.ts";
+
 // ---- Constants --------------------------------------------------
 
 const MAP_ZOOM = 19;
-const VICTORY_VALUE = 32;
+// zoomed out far enough to plan a route; the grid turns into a heatmap
+const MIN_ZOOM = 14;
 const WIN_MESSAGE_TIME = 2500;
 const RESET_DELAY = 5000;
-const SAVE_KEY = "dreamlink-save-v1";
+const RESPAWN_REFRESH_INTERVAL = 60_000;
+const PLAYTIME_TICK = 1000;
+// matches background_color in public/manifest.webmanifest
+const APP_THEME_COLOR = "#2b2238";
+
+// who this browser is in shared worlds, and the last server it joined
+const PLAYER_ID_KEY = "dreamlink-player";
+const SYNC_URL_KEY = "dreamlink-sync-url";
+const CELL_THEME_KEY = "dreamlink-cell-theme";
+
+// forget changed cells that are back at their procedural value when saving
+const PRUNE_DEFAULT_CELLS = true;
 const victorySound = new Audio(victorySoundFile);
 
 // ---- Game state -------------------------------------------------
 
-let playerPos = WORLD_ORIGIN.clone();
+const engine = new GameEngine();
 
-const gridState = {
-  visibleCells: [] as L.Rectangle[],
-  heldSpirit: null as number | null,
-};
+const slots = new SaveSlotManager();
 
-// FLYWEIGHT PATTERN
-const cellMemory = new Map<string, CellMemento>();
+// outlives movement controllers so switching modes can't skip the check
+const speedGuard = new SpeedGuard();
 
-let movementController: MovementController = new ButtonMovementController(
-  () => playerPos,
-);
+// cells this run has visited and revealed; survives victory resets
+const exploration = new ExplorationMap();
+
+// stats and achievements kept across every run and slot
+const lifetime = new LifetimeTracker();
+
+// keyboard access to the cells in reach
+const cellCursor = new CellCursor();
+
+// today's quests for this run
+const quests = new QuestBoard();
+
+// set while playing in a shared world
+let syncClient: SyncClient | null = null;
+
+let movementController: MovementController = createButtonController();
 
 // ---- UI setup ---------------------------------------------------
 
 const mapDiv = createDiv("map");
 const statusPanel = createDiv("statusPanel");
+
+// the status panel holds the hotbar and the daily quest tracker
+const hotbarArea = document.createElement("div");
+const questTracker = createDiv("questTracker");
+statusPanel.append(hotbarArea, questTracker);
 const feedbackPanel = createDiv("feedbackPanel");
+feedbackPanel.setAttribute("role", "status");
+feedbackPanel.setAttribute("aria-live", "polite");
+
+// announcements with no visible panel of their own (hotbar, cursor)
+const announcer = createDiv("announcer");
+announcer.className = "visuallyHidden";
+announcer.setAttribute("role", "status");
+announcer.setAttribute("aria-live", "polite");
+
+// focus target for playing with the keyboard (arrows + Enter / Space)
+const CURSOR_HINT = "🎯 Focus here to pick cells with the arrow keys";
+const cursorTarget = createDiv("cellCursor");
+cursorTarget.tabIndex = 0;
+cursorTarget.setAttribute("role", "application");
+cursorTarget.setAttribute(
+  "aria-label",
+  "Dream fragments around you. Arrow keys choose a fragment, Enter or Space uses it, W A S D still walk.",
+);
+cursorTarget.textContent = CURSOR_HINT;
 const winOverlay = createWinOverlay();
 
 // movement toggle button (right of feedback)
@@ -69,22 +168,150 @@ const newGameButton = document.createElement("button");
 newGameButton.id = "newGameButton";
 newGameButton.textContent = "New Game";
 
+// export / import buttons (next to new game)
+const exportButton = document.createElement("button");
+exportButton.className = "saveButton";
+exportButton.textContent = "Export Save";
+
+const importButton = document.createElement("button");
+importButton.className = "saveButton";
+importButton.textContent = "Import Save";
+
+const slotsButton = document.createElement("button");
+slotsButton.className = "saveButton";
+slotsButton.textContent = "Save Slots";
+
+// pre-downloads the map around the player for offline play
+const offlineButton = document.createElement("button");
+offlineButton.className = "saveButton";
+offlineButton.textContent = "Save Area Offline";
+
+// joins (or leaves) the shared world on a sync server
+const syncButton = document.createElement("button");
+syncButton.className = "saveButton";
+syncButton.textContent = "Join Shared World";
+
+// shows the exploration stats panel
+const explorationButton = document.createElement("button");
+explorationButton.className = "saveButton";
+explorationButton.textContent = "Exploration";
+
+// switches the cells to the high-contrast theme
+const contrastButton = document.createElement("button");
+contrastButton.className = "saveButton";
+contrastButton.textContent = "High Contrast";
+
+// shows lifetime stats and achievements
+const achievementsButton = document.createElement("button");
+achievementsButton.className = "saveButton";
+achievementsButton.textContent = "Achievements";
+
+const saveControls = createDiv("saveControls");
+saveControls.append(
+  contrastButton,
+  achievementsButton,
+  explorationButton,
+  slotsButton,
+  exportButton,
+  importButton,
+  offlineButton,
+  syncButton,
+);
+
+// save slot list (toggled by the slots button)
+const slotPanel = createDiv("slotPanel");
+slotPanel.style.display = "none";
+
+// exploration stats (toggled by the exploration button)
+const explorationPanel = createDiv("explorationPanel");
+explorationPanel.style.display = "none";
+
+// lifetime stats and achievements (toggled by the achievements button)
+const achievementPanel = createDiv("achievementPanel");
+achievementPanel.style.display = "none";
+
+// only one of these side panels is open at a time
+const sidePanels = [slotPanel, explorationPanel, achievementPanel];
+
+// achievement and quest notices, read out as they appear
+const toastStack = createDiv("toastStack");
+toastStack.setAttribute("role", "status");
+toastStack.setAttribute("aria-live", "polite");
+
+// new game settings (opened by the new game button)
+const newGamePanel = createDiv("newGamePanel");
+newGamePanel.style.display = "none";
+
+// undo / redo buttons
+const undoButton = document.createElement("button");
+undoButton.className = "saveButton";
+undoButton.textContent = "↶ Undo";
+undoButton.title = "Undo (Ctrl+Z)";
+
+const redoButton = document.createElement("button");
+redoButton.className = "saveButton";
+redoButton.textContent = "↷ Redo";
+redoButton.title = "Redo (Ctrl+Shift+Z)";
+
+const historyControls = createDiv("historyControls");
+// cancels a click-to-travel route (shown while walking one)
+const cancelRouteButton = document.createElement("button");
+cancelRouteButton.className = "saveButton";
+cancelRouteButton.textContent = "✖ Cancel Route";
+cancelRouteButton.title = "Stop walking (Esc)";
+cancelRouteButton.style.display = "none";
+
+historyControls.append(undoButton, redoButton, cancelRouteButton);
+
+// touch D-pad (shown in button mode)
+const dpad = createDpad((direction) => {
+  if (movementController instanceof ButtonMovementController) {
+    movementController.hold("dpad", direction);
+  }
+});
+
+// GPS signal quality, shown while moving by geolocation
+const gpsStatus = createDiv("gpsStatus");
+gpsStatus.style.display = "none";
+
+// simulated GPS from a recorded track (under the zoom buttons)
+const replayControls = createDiv("replayControls");
+
 // container for status + feedback + movement toggle
 const uiContainer = document.createElement("div");
 uiContainer.id = "uiContainer";
-uiContainer.append(statusPanel, feedbackPanel, movementToggle);
+uiContainer.append(
+  statusPanel,
+  feedbackPanel,
+  movementToggle,
+  gpsStatus,
+  cursorTarget,
+  announcer,
+);
 
-document.body.append(mapDiv, uiContainer, winOverlay, newGameButton);
+document.body.append(
+  mapDiv,
+  uiContainer,
+  winOverlay,
+  newGameButton,
+  saveControls,
+  slotPanel,
+  explorationPanel,
+  achievementPanel,
+  toastStack,
+  historyControls,
+  replayControls,
+  dpad,
+  newGamePanel,
+);
 
 // ---- Map setup --------------------------------------------------
 
 const map = L.map(mapDiv, {
   center: WORLD_ORIGIN,
   zoom: MAP_ZOOM,
-  minZoom: MAP_ZOOM,
+  minZoom: MIN_ZOOM,
   maxZoom: MAP_ZOOM,
-  zoomControl: false,
-  scrollWheelZoom: false,
 });
 
 L.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
@@ -92,7 +319,35 @@ L.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
   attribution: "© OpenStreetMap contributors",
 }).addTo(map);
 
-const playerMarker = L.circleMarker(playerPos, {
+// all cells are painted on one canvas; clicks are hit-tested by the layer
+const gridLayer = new GridCanvasLayer({
+  getRules: () => engine.config,
+  getCell: (i, j) => {
+    const spirit = engine.getSpirit(i, j);
+    return {
+      value: spirit?.value ?? 0,
+      kind: spirit?.kind ?? null,
+      nearby: engine.isNearPlayer(i, j),
+      fogged: !exploration.isRevealed(i, j),
+      focused: cellCursor.isAt(playerCell(), i, j),
+    };
+  },
+  onCellClick: handleCellClick,
+}).addTo(map);
+
+// dashed preview of a click-to-travel route
+const routeLine = L.polyline([], {
+  color: "#d607d6",
+  weight: 3,
+  dashArray: "6 8",
+  className: "routePreview",
+  interactive: false,
+}).addTo(map);
+
+// other players in the shared world
+const otherPlayers = L.layerGroup().addTo(map);
+
+const playerMarker = L.circleMarker(engine.playerPos, {
   radius: 7,
   color: "purple",
   fillOpacity: 0.8,
@@ -104,27 +359,66 @@ function showFeedback(message: string): void {
   feedbackPanel.textContent = message;
 }
 
+// read out by screen readers without changing anything on screen
+function announce(message: string): void {
+  announcer.textContent = message;
+}
+
+function updateHistoryButtons(): void {
+  undoButton.disabled = !engine.canUndo;
+  redoButton.disabled = !engine.canRedo;
+}
+
+// the last status read out; the hotbar is rebuilt on every update, so only
+// a changed summary is announced
+let announcedStatus = "";
+
 function updateStatus(): void {
-  statusPanel.textContent = gridState.heldSpirit
-    ? `✨ Holding spirit of value ${gridState.heldSpirit}.`
+  const held = engine.heldSpirit;
+  const summary = held
+    ? `✨ Holding ${describeKind(held.kind)} spirit of value ${held.value}.`
     : "👐 Empty-handed.";
+  if (summary !== announcedStatus) {
+    announcedStatus = summary;
+    announce(summary);
+  }
+
+  renderHotbar(
+    hotbarArea,
+    summary,
+    engine.inventory,
+    engine.selectedSlot,
+    (slot) => engine.selectSlot(slot),
+  );
 }
 
-function getRealWorldStartingPosition(): Promise<L.LatLng> {
+function getRealWorldStartingPosition(): Promise<LatLng> {
   return new Promise((resolve) => {
     if (!navigator.geolocation) {
-      resolve(centerPlayerOnGrid(WORLD_ORIGIN.lat, WORLD_ORIGIN.lng));
+      resolve(
+        centerPlayerOnGrid(WORLD_ORIGIN.lat, WORLD_ORIGIN.lng, engine.config),
+      );
       return;
     }
 
     navigator.geolocation.getCurrentPosition(
       (pos) => {
         resolve(
-          centerPlayerOnGrid(pos.coords.latitude, pos.coords.longitude),
+          centerPlayerOnGrid(
+            pos.coords.latitude,
+            pos.coords.longitude,
+            engine.config,
+          ),
         );
       },
       () => {
-        resolve(centerPlayerOnGrid(WORLD_ORIGIN.lat, WORLD_ORIGIN.lng));
+        resolve(
+          centerPlayerOnGrid(
+            WORLD_ORIGIN.lat,
+            WORLD_ORIGIN.lng,
+            engine.config,
+          ),
+        );
       },
       {
         enableHighAccuracy: true,
@@ -134,163 +428,976 @@ function getRealWorldStartingPosition(): Promise<L.LatLng> {
   });
 }
 
+// button moves step one cell of the current run's grid
+function createButtonController(): ButtonMovementController {
+  return new ButtonMovementController(
+    () => engine.playerPos,
+    () => engine.config.cellSizeDeg,
+  );
+}
+
+function createGeoController(): GeoMovementController {
+  return new GeoMovementController(() => engine.config);
+}
+
 function setMovementController(newController: MovementController): void {
   movementController.stop();
   movementController = newController;
   movementController.onMove(handleMoveEvent);
+  engine.trackPosition(
+    movementController instanceof GeoMovementController ||
+      movementController instanceof ReplayMovementController,
+  );
+  updateHistoryButtons();
+
+  gpsStatus.style.display = "none";
+  dpad.style.display = "none";
+  if (movementController instanceof ButtonMovementController) {
+    movementController.onRouteChange(renderRoute);
+    dpad.style.display = "";
+  }
+  if (
+    movementController instanceof GeoMovementController ||
+    movementController instanceof ReplayMovementController
+  ) {
+    movementController.onStateChange((state) => {
+      renderGpsStatus(gpsStatus, state);
+      gpsStatus.style.display = "block";
+    });
+  }
+
   movementController.start();
+  renderReplay();
+}
+
+// ---- Click to travel --------------------------------------------
+
+// out-of-reach cells are walked to in button mode instead of refused
+function handleCellClick(i: number, j: number): void {
+  if (
+    engine.isNearPlayer(i, j) ||
+    !(movementController instanceof ButtonMovementController)
+  ) {
+    engine.interact(i, j);
+    return;
+  }
+
+  const steps = movementController.travelTo(
+    getCellCenter(i, j, engine.config),
+  );
+  if (steps > 0) {
+    showFeedback(`🚶 Walking ${steps} steps there. Press Esc to cancel.`);
+  }
+}
+
+function renderRoute(route: readonly LatLng[]): void {
+  routeLine.setLatLngs(route.length > 0 ? [engine.playerPos, ...route] : []);
+  cancelRouteButton.style.display = route.length > 0 ? "" : "none";
+}
+
+cancelRouteButton.addEventListener("click", () => {
+  if (movementController instanceof ButtonMovementController) {
+    movementController.cancelTravel();
+    showFeedback("Route cancelled.");
+  }
+});
+
+// ---- Track replay -----------------------------------------------
+
+function renderReplay(): void {
+  const replay = movementController instanceof ReplayMovementController
+    ? movementController
+    : null;
+
+  renderReplayControls(replayControls, replay?.speed ?? null, {
+    onLoad: loadReplayTrack,
+    onSpeed: (speed) => {
+      replay?.setSpeed(speed);
+      renderReplay();
+    },
+    onStop: () => {
+      movementToggle.textContent = "Switch to Geo Movement";
+      setMovementController(createButtonController());
+      showFeedback("⌨️ Replay stopped, back to BUTTON movement");
+    },
+  });
+}
+
+async function loadReplayTrack(options: ReplayOptions): Promise<void> {
+  const text = await pickTextFile(".gpx,.geojson,.json");
+  if (text === null) return;
+
+  let track: Track;
+  try {
+    track = parseTrack(text);
+  } catch (err) {
+    showFeedback(`⚠️ Could not replay that track: ${(err as Error).message}`);
+    return;
+  }
+
+  // the replay stands in for the GPS, so the toggle leads back to buttons
+  movementToggle.textContent = "Switch to Button Movement";
+  setMovementController(
+    new ReplayMovementController(track, options, () => engine.config),
+  );
+  showFeedback(`🛰️ Replaying a track of ${track.length} points`);
 }
 
 // ---- Movement handling ------------------------------------------
 
-function handleMoveEvent(lat: number, lng: number): void {
-  // snap raw input to grid center
-  playerPos = centerPlayerOnGrid(lat, lng);
-  playerMarker.setLatLng(playerPos);
+// geo (and replayed) moves must be physically plausible; keyboard moves are
+// free but never move the speed check's anchor. False refuses the move
+function handleMoveEvent(
+  lat: number,
+  lng: number,
+  _accuracy?: number,
+  time = Date.now(),
+): boolean {
+  const isReplay = movementController instanceof ReplayMovementController;
+  const isGeo = movementController instanceof GeoMovementController ||
+    isReplay;
+  const pos = centerPlayerOnGrid(lat, lng, engine.config);
+
+  // geo walks run from the last accepted fix, so the first fix after a
+  // keyboard detour doesn't count the jump back as distance
+  let walked = distanceMeters(engine.playerPos, pos);
+  if (isGeo) {
+    const anchor = speedGuard.anchor;
+    walked = anchor ? distanceMeters(anchor, { lat, lng }) : 0;
+    // a replay's clock runs at its playback speed, so replayed moves are
+    // checked (and anchored) at wall-clock time
+    const check = speedGuard.check({ lat, lng }, isReplay ? Date.now() : time);
+    if (!check.ok) {
+      showFeedback(
+        `🚫 Ignored a ${(check.distance / 1000).toFixed(1)} km jump (${
+          Math.round(check.speedMps * 3.6)
+        } km/h is too fast). Moves from there count in ${
+          Math.ceil(check.waitMs / 60_000)
+        } min.`,
+      );
+      return false;
+    }
+  }
 
-  showFeedback(
-    `Moved to (${lat.toFixed(TEXT_DECIMALS)}, ${lng.toFixed(TEXT_DECIMALS)}).`,
+  // explored before moving so the move's redraw and save include it
+  explore(pos, walked);
+  engine.move(lat, lng);
+  return true;
+}
+
+// records a visit and the meters walked to get there
+function explore(pos: LatLng, walked = 0): void {
+  exploration.walk(walked);
+  const rules = engine.config;
+  exploration.visit(
+    latToCellIndex(pos.lat, rules),
+    lngToCellIndex(pos.lng, rules),
+    rules,
   );
+  if (explorationPanel.style.display !== "none") renderExploration();
+}
 
-  drawCells();
-  map.panTo(playerPos);
-  saveGame();
+function renderExploration(): void {
+  renderExplorationStats(explorationPanel, exploration.stats);
+}
+
+function placePlayer(pos: LatLng): void {
+  explore(pos);
+  engine.placePlayer(pos);
+  playerMarker.setLatLng(pos);
+  map.panTo(pos);
 }
 
 // movement toggle button logic
 movementToggle.addEventListener("click", () => {
   if (movementController instanceof ButtonMovementController) {
     movementToggle.textContent = "Switch to Button Movement";
-    setMovementController(new GeoMovementController());
+    setMovementController(createGeoController());
     showFeedback("🛰️ Switched to GEO movement");
   } else {
     movementToggle.textContent = "Switch to Geo Movement";
-    setMovementController(new ButtonMovementController(() => playerPos));
+    setMovementController(createButtonController());
     showFeedback("⌨️ Switched to BUTTON movement");
   }
 });
 
-// "New Game" button: show overlay, then clear save + reload
-newGameButton.addEventListener("click", () => {
-  winOverlay.innerHTML = "<h1>🌙 A new dream begins...</h1>";
-  winOverlay.style.display = "block";
+// "New Game" button: pick the rules, show overlay, then start a fresh run
+// in a new slot
+newGameButton.addEventListener("click", openNewGamePanel);
+
+function openNewGamePanel(): void {
+  newGamePanel.style.display = "block";
+  renderNewGamePanel(newGamePanel, engine.config, {
+    onStart: (config) => {
+      newGamePanel.style.display = "none";
+      winOverlay.innerHTML = "<h1>🌙 A new dream begins...</h1>";
+      winOverlay.style.display = "block";
+
+      requestAnimationFrame(() => winOverlay.classList.add("show"));
+
+      setTimeout(async () => {
+        await startNewGame(config);
+        winOverlay.classList.remove("show");
+        winOverlay.style.display = "none";
+      }, 2000);
+    },
+    onCancel: () => {
+      newGamePanel.style.display = "none";
+    },
+  });
+}
 
-  requestAnimationFrame(() => winOverlay.classList.add("show"));
+// undo / redo buttons and Ctrl+Z / Ctrl+Shift+Z
+undoButton.addEventListener("click", () => engine.undo());
+redoButton.addEventListener("click", () => engine.redo());
+
+// typing a slot name or a seed must not trigger game shortcuts
+function isTyping(e: KeyboardEvent): boolean {
+  const target = e.target as HTMLElement | null;
+  return Boolean(target?.closest?.("input, select, textarea"));
+}
+
+// number keys pick the active inventory slot
+document.addEventListener("keydown", (e) => {
+  if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e)) return;
+  const slot = Number(e.key);
+  if (Number.isInteger(slot) && slot >= 1) engine.selectSlot(slot - 1);
+});
+
+// form fields keep the browser's own undo
+document.addEventListener("keydown", (e) => {
+  if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+  if (isTyping(e)) return;
+  e.preventDefault();
+  if (e.shiftKey) engine.redo();
+  else engine.undo();
+});
+
+// "Save Slots" button: show or hide the slot list
+slotsButton.addEventListener("click", () => {
+  toggleSidePanel(slotPanel, renderSlots);
+});
+
+// "Exploration" button: show or hide the exploration stats
+explorationButton.addEventListener("click", () => {
+  toggleSidePanel(explorationPanel, renderExploration);
+});
+
+// "Achievements" button: show or hide lifetime stats and achievements
+achievementsButton.addEventListener("click", () => {
+  toggleSidePanel(achievementPanel, renderLifetime);
+});
+
+function toggleSidePanel(panel: HTMLElement, render: () => void): void {
+  const hidden = panel.style.display === "none";
+  sidePanels.forEach((other) => (other.style.display = "none"));
+  if (!hidden) return;
+  panel.style.display = "block";
+  render();
+}
+
+// "Export Save" button: download the current run as JSON
+exportButton.addEventListener("click", () => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  downloadTextFile(`dreamlink-save-${stamp}.json`, createSaveData(true));
+  showFeedback("💾 Save exported.");
+});
+
+// "Import Save" button: validate a JSON file, confirm, then replace the run
+importButton.addEventListener("click", async () => {
+  const raw = await pickTextFile(".json,application/json");
+  if (raw === null) return;
+
+  const result = parseSave(raw);
+  if (result.status === "discarded") {
+    showFeedback(
+      `⚠️ That file is not a valid save: ${result.problems.join("; ")}.`,
+    );
+    return;
+  }
+
+  if (!confirm("Importing will overwrite your current dream. Continue?")) {
+    showFeedback("Import cancelled.");
+    return;
+  }
+
+  // imported cells replace every stored chunk of this slot
+  engine.cellMemory.clear();
+  if (!applySave(result.save)) {
+    // imported file had no usable position, keep the current one
+    map.panTo(engine.playerPos);
+  }
+
+  setMovementController(movementController);
+  gridLayer.redraw();
+  joinSharedWorld();
+  updateHistoryButtons();
+  saveGame();
+  showFeedback(describeLoadProblems(result) ?? "📂 Save imported.");
+});
+
+// ---- Install + offline ------------------------------------------
+
+// index.html stays untouched, so the web app manifest is linked from here;
+// it and the icons live in public/ and are copied next to index.html
+function linkAppManifest(): void {
+  const manifest = document.createElement("link");
+  manifest.rel = "manifest";
+  manifest.href = new URL("manifest.webmanifest", document.baseURI).href;
+
+  const touchIcon = document.createElement("link");
+  touchIcon.rel = "apple-touch-icon";
+  touchIcon.href = new URL("icons/icon-192.png", document.baseURI).href;
+
+  const themeColor = document.createElement("meta");
+  themeColor.name = "theme-color";
+  themeColor.content = APP_THEME_COLOR;
+
+  document.head.append(manifest, touchIcon, themeColor);
+}
+
+// the worker is only built for production (see vite.config.js); without it
+// the map simply needs a connection
+function registerServiceWorker(): void {
+  if (!("serviceWorker" in navigator)) return;
+
+  navigator.serviceWorker.register(new URL("sw.js", document.baseURI))
+    .then(() => navigator.serviceWorker.ready)
+    .then((registration) => {
+      // assets loaded before the worker took over still need caching
+      const urls = performance.getEntriesByType("resource")
+        .map((entry) => entry.name)
+        .concat(location.href);
+      postToWorker(registration.active, { type: "cacheShell", urls });
+    })
+    .catch((err) => console.info("Offline support unavailable:", err));
+
+  navigator.serviceWorker.addEventListener("message", (event) => {
+    handleWorkerReply(event.data as WorkerReply);
+  });
+}
+
+function postToWorker(
+  worker: ServiceWorker | null | undefined,
+  message: WorkerRequest,
+): boolean {
+  worker?.postMessage(message);
+  return Boolean(worker);
+}
+
+function handleWorkerReply(reply: WorkerReply): void {
+  switch (reply.type) {
+    case "predownloadProgress":
+      showFeedback(`📥 Saving map… ${reply.done}/${reply.total} tiles`);
+      break;
+    case "predownloadDone":
+      offlineButton.disabled = false;
+      showFeedback(
+        reply.failed > 0
+          ? `⚠️ Saved ${reply.cached} map tiles; ${reply.failed} failed.`
+          : `📥 This area's map (${reply.cached} tiles) is saved for offline play.`,
+      );
+      break;
+  }
+}
+
+// "Save Area Offline" button: cache the map tiles around the player
+offlineButton.addEventListener("click", () => {
+  const sent = postToWorker(navigator.serviceWorker?.controller, {
+    type: "predownload",
+    center: engine.playerPos,
+  });
+  if (!sent) {
+    showFeedback("⚠️ Offline maps are unavailable in this browser session.");
+    return;
+  }
+  offlineButton.disabled = true;
+  showFeedback("📥 Saving map around you…");
+});
+
+// ---- Shared world -----------------------------------------------
+
+function getPlayerId(): string {
+  let id = localStorage.getItem(PLAYER_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(PLAYER_ID_KEY, id);
+  }
+  return id;
+}
+
+function createSyncClient(url: string): SyncClient {
+  return new SyncClient(new WebSocketTransport(url), getPlayerId(), {
+    applyCells: (cells) => {
+      engine.applyRemoteCells(cells);
+      drawCells();
+      updateHistoryButtons();
+    },
+    localCells: () =>
+      engine.cellMemory.entries().filter(([, memento]) => !memento.personal),
+    onPlayers: renderOtherPlayers,
+    onDisconnect: () => {
+      syncClient = null;
+      syncButton.textContent = "Join Shared World";
+      showFeedback("⚠️ Lost the connection to the shared world.");
+    },
+  });
+}
+
+// (re)joins the world of the current run; runs with other rules are
+// other worlds
+function joinSharedWorld(): void {
+  syncClient?.join(worldId(engine.config), engine.playerPos);
+}
+
+// What is shared: the cells players change by picking up, merging,
+// dropping, undoing and redoing. Quest rewards are personal and stay local,
+// and a victorious spirit is consumed, so others see its cell emptied.
+function publishCells(keys: string[]): void {
+  const cells: [string, CellMemento | null][] = keys.map((key) => [
+    key,
+    engine.cellMemory.get(key) ?? null,
+  ]);
+  syncClient?.publish(cells.filter(([, memento]) => !memento?.personal));
+}
+
+function renderOtherPlayers(players: ReadonlyMap<string, LatLng>): void {
+  otherPlayers.clearLayers();
+  players.forEach((pos, id) => {
+    L.circleMarker(pos, {
+      radius: 6,
+      color: "#0b7285",
+      fillOpacity: 0.7,
+      className: "otherPlayer",
+      interactive: false,
+    }).bindTooltip(`Dreamwalker ${id.slice(0, 4)}`).addTo(otherPlayers);
+  });
+}
+
+// "Join Shared World" button: ask for the server, then play together
+syncButton.addEventListener("click", () => {
+  if (syncClient) {
+    syncClient.leave();
+    syncClient = null;
+    syncButton.textContent = "Join Shared World";
+    showFeedback("🔌 Left the shared world.");
+    return;
+  }
+
+  const url = prompt(
+    "Sync server address:",
+    localStorage.getItem(SYNC_URL_KEY) ?? DEFAULT_SYNC_URL,
+  )?.trim();
+  if (!url) return;
+
+  localStorage.setItem(SYNC_URL_KEY, url);
+  try {
+    syncClient = createSyncClient(url);
+    joinSharedWorld();
+  } catch {
+    syncClient = null;
+    showFeedback("⚠️ That is not a valid sync server address.");
+    return;
+  }
+  syncButton.textContent = "Leave Shared World";
+  showFeedback("🌐 Joined the shared world.");
+});
+
+// ---- Keyboard + screen readers ----------------------------------
+
+function playerCell(): CellIndex {
+  const { lat, lng } = engine.playerPos;
+  return {
+    i: latToCellIndex(lat, engine.config),
+    j: lngToCellIndex(lng, engine.config),
+  };
+}
+
+// e.g. "2 north, 1 west: 🔥 ember spirit of value 4"
+function describeCursor(): string {
+  const cell = cellCursor.cellFrom(playerCell());
+  if (!cell) return "";
+
+  const { north, east } = cellCursor.offset;
+  const steps = [
+    north !== 0 ? `${Math.abs(north)} ${north > 0 ? "north" : "south"}` : "",
+    east !== 0 ? `${Math.abs(east)} ${east > 0 ? "east" : "west"}` : "",
+  ].filter((step) => step !== "");
+  const spirit = engine.getSpirit(cell.i, cell.j);
+  return `${steps.length > 0 ? steps.join(", ") : "Your cell"}: ${
+    spirit
+      ? `${describeKind(spirit.kind)} spirit of value ${spirit.value}`
+      : "empty"
+  }`;
+}
 
-  setTimeout(() => {
-    localStorage.removeItem(SAVE_KEY);
-    location.reload();
-  }, 2000);
+// keeps the cursor's text in step with the cell under it
+function renderCursor(): void {
+  cursorTarget.textContent = cellCursor.visible
+    ? `🎯 ${describeCursor()}`
+    : CURSOR_HINT;
+}
+
+function announceCursor(): void {
+  renderCursor();
+  announce(describeCursor());
+}
+
+cursorTarget.addEventListener("focus", () => {
+  cellCursor.show();
+  drawCells();
+  announceCursor();
+});
+
+cursorTarget.addEventListener("blur", () => {
+  cellCursor.hide();
+  drawCells();
+  renderCursor();
+});
+
+// arrows belong to the cursor while it has focus, so they never reach the
+// button movement controller; W A S D keep walking the player
+cursorTarget.addEventListener("keydown", (e) => {
+  if (e.ctrlKey || e.metaKey || e.altKey) return;
+  const key = e.key.toLowerCase();
+
+  if (key.startsWith("arrow") && KEY_DIRECTIONS[key]) {
+    e.preventDefault();
+    e.stopPropagation();
+    const moved = cellCursor.move(
+      KEY_DIRECTIONS[key],
+      playerCell(),
+      (i, j) => engine.isNearPlayer(i, j),
+    );
+    if (moved) {
+      drawCells();
+      announceCursor();
+    } else {
+      announce("That is the edge of your reach.");
+    }
+  } else if (key === "enter" || key === " ") {
+    e.preventDefault();
+    e.stopPropagation();
+    const cell = cellCursor.cellFrom(playerCell());
+    if (cell) engine.interact(cell.i, cell.j);
+  }
+});
+
+function loadCellTheme(): CellTheme {
+  const stored = localStorage.getItem(CELL_THEME_KEY);
+  if (stored === "standard" || stored === "highContrast") return stored;
+  return matchMedia("(prefers-contrast: more)").matches
+    ? "highContrast"
+    : "standard";
+}
+
+function applyCellTheme(theme: CellTheme): void {
+  gridLayer.setTheme(theme);
+  contrastButton.setAttribute(
+    "aria-pressed",
+    String(theme === "highContrast"),
+  );
+}
+
+// "High Contrast" button: toggle the cell theme and remember the choice
+contrastButton.addEventListener("click", () => {
+  const theme: CellTheme =
+    contrastButton.getAttribute("aria-pressed") === "true"
+      ? "standard"
+      : "highContrast";
+  localStorage.setItem(CELL_THEME_KEY, theme);
+  applyCellTheme(theme);
 });
 
 // ---- Persistence -----------------------------------------------
 
 // MEMENTO PATTERN
-function saveGame(): void {
-  const data = {
-    player: { lat: playerPos.lat, lng: playerPos.lng },
-    heldSpirit: gridState.heldSpirit,
-    cellMemory: Array.from(cellMemory.entries()),
+// slot saves leave the cells out; they are flushed chunk by chunk instead
+function createSaveData(includeCells = false): string {
+  const state = engine.snapshot(includeCells);
+  return serializeSave({
+    savedAt: Date.now(),
+    player: state.playerPos,
+    inventory: state.inventory,
+    selectedSlot: state.selectedSlot,
+    cellMemory: state.cellMemory,
+    history: state.history,
+    config: state.config,
+    geoAnchor: speedGuard.anchor,
+    exploration: exploration.save(),
+    runTimeMs: lifetime.runTimeMs,
+    quests: quests.save(),
     movementMode: movementController instanceof GeoMovementController
       ? "geo"
       : "button",
-  };
+  });
+}
 
-  localStorage.setItem(SAVE_KEY, JSON.stringify(data));
+// MEMENTO PATTERN
+function saveGame(): void {
+  lifetime.save();
+  if (PRUNE_DEFAULT_CELLS) engine.pruneDefaultCells();
+  engine.cellMemory.flush();
+  slots.writeActive(createSaveData());
+}
+
+function describeLoadProblems(result: LoadResult): string | null {
+  switch (result.status) {
+    case "ok":
+      return null;
+    case "repaired":
+      return `⚠️ Your save was repaired: ${result.problems.join("; ")}.`;
+    case "discarded":
+      return `⚠️ Your save could not be read, so it was left untouched and a new dream started in another slot: ${
+        result.problems.join("; ")
+      }.`;
+  }
 }
 
 // MEMENTO PATTERN
+// returns true when the saved player position was restored
 function loadGame(): boolean {
-  const raw = localStorage.getItem(SAVE_KEY);
+  const raw = slots.readActive();
   if (!raw) return false;
 
-  try {
-    const data = JSON.parse(raw);
+  const result = parseSave(raw);
+  const problems = describeLoadProblems(result);
+  if (problems) showFeedback(problems);
 
-    playerPos = L.latLng(data.player.lat, data.player.lng);
-    playerMarker.setLatLng(playerPos);
-    map.panTo(playerPos);
+  // an unreadable save may still open in a newer version of the game, so
+  // it is never deleted
+  if (result.status === "discarded") {
+    slots.setActive(slots.create().id);
+    engine.cellMemory.attach(slots.chunkStorage());
+    return false;
+  }
 
-    gridState.heldSpirit = data.heldSpirit ?? null;
-    updateStatus();
+  return applySave(result.save);
+}
 
-    cellMemory.clear();
-    for (const [key, memento] of data.cellMemory as [string, CellMemento][]) {
-      cellMemory.set(key, memento);
-    }
+// MEMENTO PATTERN
+// returns true when the saved player position was restored
+function applySave(save: SaveFile): boolean {
+  speedGuard.adopt(save.geoAnchor);
+  exploration.load(save.exploration);
+  lifetime.startRun(save.runTimeMs);
+  quests.load(save.quests);
+  engine.restore({
+    playerPos: save.player ?? engine.playerPos,
+    inventory: save.inventory,
+    selectedSlot: save.selectedSlot,
+    history: save.history,
+    config: save.config,
+  });
+  // older and imported saves carry their cells inline; they are moved into
+  // chunks on the next save
+  for (const [key, memento] of save.cellMemory) {
+    engine.cellMemory.set(key, memento);
+  }
+  updateStatus();
 
-    const useGeo = data.movementMode === "geo";
-    movementController = useGeo
-      ? new GeoMovementController()
-      : new ButtonMovementController(() => playerPos);
+  const useGeo = save.movementMode === "geo";
+  movementController.stop();
+  movementController = useGeo
+    ? createGeoController()
+    : createButtonController();
 
-    movementToggle.textContent = useGeo
-      ? "Switch to Button Movement"
-      : "Switch to Geo Movement";
+  movementToggle.textContent = useGeo
+    ? "Switch to Button Movement"
+    : "Switch to Geo Movement";
 
-    return true;
-  } catch (err) {
-    console.error("Failed to load save:", err);
-    return false;
-  }
+  // a repaired save without a valid position starts from the real world
+  if (!save.player) return false;
+
+  placePlayer(save.player);
+  return true;
 }
 
-// ---- Gameplay actions -------------------------------------------
+function clearSave(): void {
+  slots.clearActive();
+}
+
+// ---- Save slots -------------------------------------------------
+
+// restores the active slot's memento, or starts a fresh run with the given
+// rules if it is empty
+async function loadActiveSlot(
+  config: GameConfig = engine.config,
+): Promise<void> {
+  engine.reset(engine.playerPos, config);
+  engine.cellMemory.attach(slots.chunkStorage());
+  exploration.clear();
+  lifetime.startRun();
+  quests.load(null);
+
+  const loaded = loadGame();
 
-function performPickup(
-  i: number,
-  j: number,
-  rect: L.Rectangle,
-  value: number,
-): void {
-  const key = cellKey(i, j);
-  gridState.heldSpirit = value;
-  cellMemory.set(key, { value: 0 });
+  if (!loaded) {
+    placePlayer(await getRealWorldStartingPosition());
+  }
+  startQuestDay();
+  renderQuests();
+
+  gridLayer.redraw();
+  joinSharedWorld();
   updateStatus();
-  updateCellAppearance(rect, 0, true);
-  showFeedback(`💫 Picked up a spirit of value ${value}.`);
+  updateHistoryButtons();
+
+  // wire and start movement after we know which controller to use
+  setMovementController(movementController);
+  if (slotPanel.style.display !== "none") renderSlots();
+}
+
+async function switchToSlot(id: string, config?: GameConfig): Promise<void> {
   saveGame();
+  slots.setActive(id);
+  await loadActiveSlot(config);
 }
 
-function performMerge(
-  i: number,
-  j: number,
-  rect: L.Rectangle,
-  value: number,
-): void {
-  const key = cellKey(i, j);
-  const newValue = value * 2;
-  cellMemory.set(key, { value: newValue });
-  gridState.heldSpirit = null;
-  updateStatus();
-  updateCellAppearance(rect, newValue, true);
-  showFeedback(`⚡ Spirits merged! New value: ${newValue}.`);
+async function startNewGame(config: GameConfig): Promise<void> {
+  const slot = slots.create();
+  await switchToSlot(slot.id, config);
+  showFeedback(
+    `🌙 Started a new ${config.preset} dream in "${slot.name}" (seed "${config.seed}").`,
+  );
+}
+
+function renderSlots(): void {
+  saveGame();
+  renderSlotList(slotPanel, slots.list(), slots.activeId, {
+    onCreate: openNewGamePanel,
+    onPlay: async (id) => {
+      await switchToSlot(id);
+      showFeedback("📂 Switched save slot.");
+    },
+    onRename: (id, name) => {
+      slots.rename(id, name);
+      renderSlots();
+    },
+    onDuplicate: (id) => {
+      slots.duplicate(id);
+      renderSlots();
+    },
+    onDelete: async (id) => {
+      const wasActive = id === slots.activeId;
+      slots.delete(id);
+      if (wasActive) await loadActiveSlot();
+      else renderSlots();
+    },
+  });
+}
 
-  if (newValue >= VICTORY_VALUE) {
-    triggerVictory();
+// ---- Game event rendering --------------------------------------
+
+// OBSERVER PATTERN
+function handleGameEvent(event: GameEvent): void {
+  switch (event.type) {
+    case "moved": {
+      const { lat, lng } = event.pos;
+      playerMarker.setLatLng(event.pos);
+      showFeedback(
+        `Moved to (${lat.toFixed(TEXT_DECIMALS)}, ${
+          lng.toFixed(TEXT_DECIMALS)
+        }).`,
+      );
+      drawCells();
+      map.panTo(event.pos);
+      syncClient?.moveTo(event.pos);
+      saveGame();
+      break;
+    }
+    case "selected":
+      updateStatus();
+      saveGame();
+      break;
+    case "picked":
+      updateStatus();
+      refreshCell(event.i, event.j);
+      showFeedback(
+        `💫 Picked up ${
+          describeKind(event.kind)
+        } spirit of value ${event.value}.`,
+      );
+      publishCells([cellKey(event.i, event.j)]);
+      saveGame();
+      break;
+    case "merged":
+      updateStatus();
+      refreshCell(event.i, event.j);
+      showFeedback(
+        `⚡ Spirits merged into ${
+          describeKind(event.kind)
+        }! New value: ${event.value}.`,
+      );
+      if (event.value >= engine.config.victoryValue) {
+        syncClient?.publish([
+          [cellKey(event.i, event.j), { value: 0, changedAt: Date.now() }],
+        ]);
+      } else {
+        publishCells([cellKey(event.i, event.j)]);
+      }
+      saveGame();
+      break;
+    case "dropped": {
+      const { lat, lng } = getCellCenter(event.i, event.j, engine.config);
+      updateStatus();
+      refreshCell(event.i, event.j);
+      showFeedback(
+        `🌠 You placed ${
+          describeKind(event.kind)
+        } spirit of value ${event.value} into (${lat.toFixed(TEXT_DECIMALS)}, ${
+          lng.toFixed(TEXT_DECIMALS)
+        }).`,
+      );
+      publishCells([cellKey(event.i, event.j)]);
+      saveGame();
+      break;
+    }
+    case "rewarded":
+      refreshCell(event.i, event.j);
+      showFeedback(
+        `🎁 Quest reward: ${
+          describeKind(event.kind)
+        } spirit of value ${event.value} appeared next to you.`,
+      );
+      saveGame();
+      break;
+    case "victory":
+      triggerVictory();
+      break;
+    case "tooFar":
+      showFeedback("That fragment is too far away.");
+      break;
+    case "empty":
+      showFeedback("Empty dream fragment.");
+      break;
+    case "resisted":
+      showFeedback(
+        event.held.value === event.target.value
+          ? `${describeKind(event.held.kind)} and ${
+            describeKind(event.target.kind)
+          } spirits resist each other.`
+          : "The spirits resist merging: only equal values combine.",
+      );
+      break;
+    case "undone":
+    case "redone":
+      playerMarker.setLatLng(engine.playerPos);
+      map.panTo(engine.playerPos);
+      updateStatus();
+      drawCells();
+      showFeedback(
+        `${event.type === "undone" ? "↶ Undid" : "↷ Redid"} ${event.action}.`,
+      );
+      publishCells(event.cells);
+      syncClient?.moveTo(engine.playerPos);
+      saveGame();
+      break;
   }
 
-  saveGame();
+  updateHistoryButtons();
+  renderCursor();
 }
 
-function performDrop(i: number, j: number, rect: L.Rectangle): void {
-  const key = cellKey(i, j);
-  const value = gridState.heldSpirit!;
-  cellMemory.set(key, { value });
-  const { lat, lng } = getCellCenter(i, j);
+engine.subscribe(handleGameEvent);
 
-  showFeedback(
-    `🌠 You placed a spirit of value ${value} into (${
-      lat.toFixed(TEXT_DECIMALS)
-    }, ${lng.toFixed(TEXT_DECIMALS)}).`,
+// ---- Achievements -----------------------------------------------
+
+// OBSERVER PATTERN
+function handleLifetimeEvent(event: GameEvent): void {
+  announceAchievements(lifetime.recordEvent(event));
+}
+
+engine.subscribe(handleLifetimeEvent);
+
+// counts play time while the game is on screen
+function tickPlayTime(): void {
+  if (document.visibilityState !== "visible") return;
+  announceAchievements(
+    lifetime.addPlayTime(PLAYTIME_TICK, currentMovementMode()),
   );
+}
 
-  gridState.heldSpirit = null;
-  updateStatus();
-  updateCellAppearance(rect, value, true);
+function currentMovementMode(): MovementMode | null {
+  if (movementController instanceof GeoMovementController) return "geo";
+  if (movementController instanceof ButtonMovementController) return "button";
+  return null;
+}
+
+function announceAchievements(unlocked: Achievement[]): void {
+  unlocked.forEach(({ icon, name, description }) =>
+    showToast(toastStack, icon, `Achievement unlocked: ${name}`, description)
+  );
+  if (achievementPanel.style.display !== "none") renderLifetime();
+}
+
+function renderLifetime(): void {
+  renderAchievements(
+    achievementPanel,
+    lifetime.stats,
+    (id) => lifetime.unlockedAt(id),
+  );
+}
+
+// ---- Daily quests -----------------------------------------------
+
+function questContext(): QuestContext {
+  return { rules: engine.config, cellsVisited: exploration.stats.cellsVisited };
+}
+
+// issues new quests once the date has changed
+function startQuestDay(): void {
+  if (quests.startDay(questDay(), engine.playerPos, questContext())) {
+    renderQuests();
+  }
+}
+
+function renderQuests(): void {
+  renderQuestTracker(questTracker, quests.quests);
+}
+
+// set by the winning merge until the victory reset is done
+let dreamEnding = false;
+
+// OBSERVER PATTERN
+function handleQuestEvent(event: GameEvent): void {
+  startQuestDay();
+  const changed = quests.recordEvent(event, questContext());
+  // rewards come from quests, so they never count towards one
+  if (event.type === "rewarded") return;
+  changed.filter(isQuestComplete).forEach((quest) =>
+    showToast(
+      toastStack,
+      "📜",
+      "Quest complete",
+      describeQuestGoal(quest.goal),
+    )
+  );
+
+  // the winning merge ends the dream, so its rewards wait for the next one
+  if (event.type === "merged" && event.value >= engine.config.victoryValue) {
+    dreamEnding = true;
+  }
+  const granted = !dreamEnding && grantQuestRewards();
+  if (changed.length === 0 && !granted) return;
+  renderQuests();
   saveGame();
 }
 
+engine.subscribe(handleQuestEvent);
+
+// rewards wait while every cell next to the player is taken; true when one
+// was placed
+function grantQuestRewards(): boolean {
+  let granted = false;
+  for (const quest of quests.pendingRewards) {
+    if (!engine.grantSpirit(quest.reward)) break;
+    quests.markRewarded(quest.id);
+    granted = true;
+  }
+  return granted;
+}
+
 // ---- Victory + reset -------------------------------------------
 
 function triggerVictory(): void {
@@ -310,110 +1417,58 @@ function triggerVictory(): void {
   setTimeout(() => resetGame(), RESET_DELAY);
 }
 
+// the exploration map, lifetime stats and daily quests carry over into the
+// new dream
 async function resetGame(): Promise<void> {
-  cellMemory.clear();
-  gridState.heldSpirit = null;
+  engine.reset(engine.playerPos);
+  lifetime.startRun();
   updateStatus();
-  localStorage.removeItem(SAVE_KEY);
+  updateHistoryButtons();
+  clearSave();
 
-  const startPos = await getRealWorldStartingPosition();
-  playerPos = startPos;
-  playerMarker.setLatLng(startPos);
-  map.panTo(startPos);
+  placePlayer(await getRealWorldStartingPosition());
   map.dragging.enable();
 
+  // rewards held back by the victory are placed in the new dream
+  dreamEnding = false;
+  if (grantQuestRewards()) {
+    renderQuests();
+    saveGame();
+  }
+
   winOverlay.classList.remove("show");
   winOverlay.style.display = "none";
 
-  drawCells();
+  gridLayer.redraw();
+  joinSharedWorld();
 }
 
-// ---- Cell interaction -------------------------------------------
-
-function handleCellClick(
-  i: number,
-  j: number,
-  rect: L.Rectangle,
-): void {
-  if (!isCellNearPlayer(playerPos, i, j)) {
-    showFeedback("That fragment is too far away.");
-    return;
-  }
-
-  const currentValue = getSpiritAt(cellMemory, i, j);
-  const held = gridState.heldSpirit;
-
-  if (currentValue > 0 && held === null) {
-    performPickup(i, j, rect, currentValue);
-    return;
-  }
-
-  if (currentValue > 0 && held === currentValue) {
-    performMerge(i, j, rect, currentValue);
-    return;
-  }
-
-  if (held && currentValue === 0) {
-    performDrop(i, j, rect);
-    return;
-  }
-
-  if (held === null && currentValue === 0) {
-    showFeedback("Empty dream fragment.");
-    return;
-  }
+// ---- Grid rendering ---------------------------------------------
 
-  showFeedback("The spirits resist merging.");
+function refreshCell(i: number, j: number): void {
+  gridLayer.refreshCell(i, j);
 }
 
-// ---- Grid rendering ---------------------------------------------
-
+// repaints the visible cells whose value or reach changed
 function drawCells(): void {
-  gridState.visibleCells.forEach((c) => map.removeLayer(c));
-  gridState.visibleCells.length = 0;
-
-  const bounds = map.getBounds();
-  const startI = latToCellIndex(bounds.getSouth());
-  const endI = latToCellIndex(bounds.getNorth());
-  const startJ = lngToCellIndex(bounds.getWest());
-  const endJ = lngToCellIndex(bounds.getEast());
-
-  for (let i = startI; i <= endI; i++) {
-    for (let j = startJ; j <= endJ; j++) {
-      const { south, west, north, east } = getCellLatLng(i, j);
-      const spiritValue = getSpiritAt(cellMemory, i, j);
-
-      const rect = L.rectangle([[south, west], [north, east]], {
-        weight: 0.5,
-      });
-
-      const nearby = isCellNearPlayer(playerPos, i, j);
-      updateCellAppearance(rect, spiritValue, nearby);
-
-      rect.on("click", () => handleCellClick(i, j, rect));
-      rect.addTo(map);
-      gridState.visibleCells.push(rect);
-    }
-  }
+  gridLayer.update();
 }
 
 // ---- Bootstrap --------------------------------------------------
 
-map.on("moveend", drawCells);
-
-(async function bootstrap() {
-  const loaded = loadGame();
+// respawns are wall-clock based, so redraw now and then to show regrown cells
+setInterval(drawCells, RESPAWN_REFRESH_INTERVAL);
+setInterval(tickPlayTime, PLAYTIME_TICK);
 
-  if (!loaded) {
-    const startPos = await getRealWorldStartingPosition();
-    playerPos = startPos;
-    playerMarker.setLatLng(startPos);
-    map.panTo(startPos);
-  }
+// MEMENTO PATTERN
+// a backgrounded tab may be evicted without warning, so save on the way out
+document.addEventListener("visibilitychange", () => {
+  if (document.visibilityState === "hidden") saveGame();
+});
+globalThis.addEventListener("pagehide", saveGame);
 
-  drawCells();
-  updateStatus();
+linkAppManifest();
+registerServiceWorker();
+applyCellTheme(loadCellTheme());
 
-  // wire and start movement after we know which controller to use
-  setMovementController(movementController);
-})();
+loadActiveSlot();
@@ -1,86 +1,333 @@
-import { CELL_SIZE_DEG } from "./world.ts";
+import luck from "./_luck.ts";
+import {
+  CELL_SIZE_DEG,
+  DEFAULT_WORLD_RULES,
+  type LatLng,
+  type WorldRules,
+} from "./world.ts";
+import { GpsFilter, type GpsState } from "./gps.ts";
+import {
+  offsetMeters,
+  positionAt,
+  type Track,
+  trackDuration,
+} from "./track.ts";
+
+// accuracy (meters) and the fix time are only known for GPS-like sources,
+// which take false as a refused move
+export type MoveCallback = (
+  lat: number,
+  lng: number,
+  accuracy?: number,
+  time?: number,
+) => boolean | void;
 
 // FACADE PATTERN
 export interface MovementController {
   start(): void;
   stop(): void;
-  onMove(callback: (lat: number, lng: number) => void): void;
+  onMove(callback: MoveCallback): void;
+}
+
+// -- Directions ----------------------------------------------------------
+
+// one cell per axis: north / east are -1, 0 or 1
+export interface Direction {
+  north: number;
+  east: number;
+}
+
+export const KEY_DIRECTIONS: Record<string, Direction> = {
+  w: { north: 1, east: 0 },
+  arrowup: { north: 1, east: 0 },
+  s: { north: -1, east: 0 },
+  arrowdown: { north: -1, east: 0 },
+  a: { north: 0, east: -1 },
+  arrowleft: { north: 0, east: -1 },
+  d: { north: 0, east: 1 },
+  arrowright: { north: 0, east: 1 },
+};
+
+// held directions repeat like a key held down
+export const REPEAT_DELAY_MS = 350;
+export const REPEAT_INTERVAL_MS = 150;
+
+const STICK_DEADZONE = 0.5;
+
+// -- Route planning ------------------------------------------------------
+
+export const ROUTE_STEP_MS = 200;
+
+// one WASD-sized step at a time, interleaving the two axes so the route
+// follows the straight line to the target
+export function planRoute(
+  from: LatLng,
+  to: LatLng,
+  step: number = CELL_SIZE_DEG,
+): LatLng[] {
+  const di = Math.round((to.lat - from.lat) / step);
+  const dj = Math.round((to.lng - from.lng) / step);
+  const stepsI = Math.abs(di);
+  const stepsJ = Math.abs(dj);
+
+  const route: LatLng[] = [];
+  let doneI = 0;
+  let doneJ = 0;
+  while (doneI < stepsI || doneJ < stepsJ) {
+    // advance the axis that lags furthest behind the straight line
+    const lagI = doneI < stepsI ? (doneI + 0.5) / stepsI : Infinity;
+    const lagJ = doneJ < stepsJ ? (doneJ + 0.5) / stepsJ : Infinity;
+    if (lagI <= lagJ) doneI++;
+    else doneJ++;
+
+    route.push({
+      lat: from.lat + Math.sign(di) * doneI * step,
+      lng: from.lng + Math.sign(dj) * doneJ * step,
+    });
+  }
+  return route;
 }
 
 // -- WASD movement -------------------------------------------------------
+// WASD / arrow keys, an on-screen D-pad and gamepads all step through here;
+// also walks queued click-to-travel routes, one step per ROUTE_STEP_MS
 export class ButtonMovementController implements MovementController {
   private callback: ((lat: number, lng: number) => void) | null = null;
+  private held = new Map<
+    string,
+    { direction: Direction; timer: ReturnType<typeof setTimeout> }
+  >();
+  private pollId: number | null = null;
+  private routeCallback: ((route: readonly LatLng[]) => void) | null = null;
+  private route: LatLng[] = [];
+  private routeTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(
     private getPlayerPos: () => { lat: number; lng: number },
+    private getStepSize: () => number = () => CELL_SIZE_DEG,
   ) {}
 
+  get traveling(): boolean {
+    return this.routeTimer !== null;
+  }
+
   onMove(cb: (lat: number, lng: number) => void): void {
     this.callback = cb;
   }
 
+  // called with the remaining steps whenever the route changes
+  onRouteChange(cb: (route: readonly LatLng[]) => void): void {
+    this.routeCallback = cb;
+  }
+
   start(): void {
     document.addEventListener("keydown", this.handleKey);
+    if ("getGamepads" in navigator) {
+      globalThis.addEventListener("gamepadconnected", this.startPolling);
+      if (navigator.getGamepads().some((pad) => pad !== null)) {
+        this.startPolling();
+      }
+    }
   }
 
   stop(): void {
     document.removeEventListener("keydown", this.handleKey);
+    globalThis.removeEventListener("gamepadconnected", this.startPolling);
+    this.stopPolling();
+    this.releaseAll();
+    this.cancelTravel();
   }
 
-  private handleKey = (e: KeyboardEvent) => {
-    if (!this.callback) return;
+  // returns the number of steps queued
+  travelTo(target: LatLng): number {
+    this.cancelTravel();
+    this.route = planRoute(this.getPlayerPos(), target, this.getStepSize());
+    if (this.route.length === 0) return 0;
 
-    let dx = 0;
-    let dy = 0;
-
-    switch (e.key.toLowerCase()) {
-      case "w":
-        dy = CELL_SIZE_DEG;
-        break;
-      case "s":
-        dy = -CELL_SIZE_DEG;
-        break;
-      case "a":
-        dx = -CELL_SIZE_DEG;
-        break;
-      case "d":
-        dx = CELL_SIZE_DEG;
-        break;
-    }
+    this.routeTimer = setInterval(() => this.walkRoute(), ROUTE_STEP_MS);
+    this.routeCallback?.(this.route);
+    return this.route.length;
+  }
+
+  // also called once the last step is taken
+  cancelTravel(): void {
+    if (this.routeTimer === null) return;
+    clearInterval(this.routeTimer);
+    this.routeTimer = null;
+    this.route = [];
+    this.routeCallback?.(this.route);
+  }
 
-    if (dx === 0 && dy === 0) return;
+  private walkRoute(): void {
+    const next = this.route.shift();
+    if (next) this.callback?.(next.lat, next.lng);
 
+    if (this.route.length === 0) this.cancelTravel();
+    else this.routeCallback?.(this.route);
+  }
+
+  // moves one cell (both axes at once for diagonals)
+  step(direction: Direction): void {
+    if (!this.callback) return;
+    if (direction.north === 0 && direction.east === 0) return;
+
+    // steering by hand takes over from a queued route
+    this.cancelTravel();
+    const step = this.getStepSize();
     const pos = this.getPlayerPos();
-    const newLat = pos.lat + dy;
-    const newLng = pos.lng + dx;
+    const newLat = pos.lat + direction.north * step;
+    const newLng = pos.lng + direction.east * step;
     this.callback(newLat, newLng);
+  }
+
+  // a held D-pad or gamepad direction steps now, then repeats until released
+  // (null); each input source holds its own direction
+  hold(source: string, direction: Direction | null): void {
+    const held = this.held.get(source);
+    if (
+      held && direction &&
+      held.direction.north === direction.north &&
+      held.direction.east === direction.east
+    ) {
+      return;
+    }
+
+    if (held) clearTimeout(held.timer);
+    this.held.delete(source);
+    if (!direction || (direction.north === 0 && direction.east === 0)) return;
+
+    this.step(direction);
+    const repeat = () => {
+      this.step(direction);
+      this.held.set(source, {
+        direction,
+        timer: setTimeout(repeat, REPEAT_INTERVAL_MS),
+      });
+    };
+    this.held.set(source, {
+      direction,
+      timer: setTimeout(repeat, REPEAT_DELAY_MS),
+    });
+  }
+
+  private releaseAll(): void {
+    this.held.forEach(({ timer }) => clearTimeout(timer));
+    this.held.clear();
+  }
+
+  private handleKey = (e: KeyboardEvent) => {
+    if (e.key === "Escape") {
+      this.cancelTravel();
+      return;
+    }
+
+    // typing into a form field or using a shortcut is not walking
+    const target = e.target as HTMLElement | null;
+    if (
+      e.ctrlKey || e.metaKey || e.altKey ||
+      target?.closest?.("input, select, textarea")
+    ) {
+      return;
+    }
+
+    const direction = KEY_DIRECTIONS[e.key.toLowerCase()];
+    if (!direction) return;
+
+    e.preventDefault();
+    this.step(direction);
   };
+
+  // standard-mapping D-pad buttons or the left stick
+  private pollGamepads = () => {
+    this.pollId = null;
+    const pads = navigator.getGamepads().filter((pad) => pad !== null);
+    if (pads.length === 0) {
+      this.hold("gamepad", null);
+      return;
+    }
+
+    let north = 0;
+    let east = 0;
+    for (const pad of pads) {
+      const pressed = (button: number) => pad.buttons[button]?.pressed;
+      const [x = 0, y = 0] = pad.axes;
+      if (pressed(12) || y < -STICK_DEADZONE) north = 1;
+      if (pressed(13) || y > STICK_DEADZONE) north = -1;
+      if (pressed(14) || x < -STICK_DEADZONE) east = -1;
+      if (pressed(15) || x > STICK_DEADZONE) east = 1;
+    }
+    this.hold("gamepad", { north, east });
+    this.pollId = requestAnimationFrame(this.pollGamepads);
+  };
+
+  private startPolling = () => {
+    if (this.pollId === null) {
+      this.pollId = requestAnimationFrame(this.pollGamepads);
+    }
+  };
+
+  private stopPolling(): void {
+    if (this.pollId !== null) {
+      cancelAnimationFrame(this.pollId);
+      this.pollId = null;
+    }
+  }
 }
 
 // -- Geo Location movement  ----------------------------------------------
+// fixes go through a GpsFilter so noisy signals don't teleport the player
 export class GeoMovementController implements MovementController {
   private watchId: number | null = null;
-  private callback: ((lat: number, lng: number) => void) | null = null;
+  private callback: MoveCallback | null = null;
+  private stateCallback: ((state: GpsState) => void) | null = null;
+  private reported: GpsState | null = null;
+  private filter: GpsFilter;
 
-  onMove(cb: (lat: number, lng: number) => void): void {
+  constructor(getRules: () => WorldRules = () => DEFAULT_WORLD_RULES) {
+    this.filter = new GpsFilter(getRules);
+  }
+
+  get state(): GpsState {
+    return this.filter.state;
+  }
+
+  onMove(cb: MoveCallback): void {
     this.callback = cb;
   }
 
+  onStateChange(cb: (state: GpsState) => void): void {
+    this.stateCallback = cb;
+  }
+
   start(): void {
     if (!navigator.geolocation) {
       console.error("Geolocation not supported on this device.");
       return;
     }
 
+    this.filter.lose();
+    this.reportState();
+
     this.watchId = navigator.geolocation.watchPosition(
       (pos) => {
-        if (!this.callback) return;
-        const lat = pos.coords.latitude;
-        const lng = pos.coords.longitude;
-        this.callback(lat, lng);
+        const fix = {
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          time: pos.timestamp,
+        };
+        this.filter.push(
+          fix,
+          (target, time) =>
+            this.callback?.(target.lat, target.lng, fix.accuracy, time) !==
+              false,
+        );
+        this.reportState();
       },
       (err) => {
         console.error("GPS error:", err);
+        this.filter.lose();
+        this.reportState();
       },
       {
         enableHighAccuracy: true,
@@ -96,4 +343,138 @@ export class GeoMovementController implements MovementController {
       this.watchId = null;
     }
   }
+
+  private reportState(): void {
+    if (this.filter.state === this.reported) return;
+    this.reported = this.filter.state;
+    this.stateCallback?.(this.filter.state);
+  }
+}
+
+// -- Track replay --------------------------------------------------------
+
+// 0 pauses the replay
+export type ReplaySpeed = 0 | 1 | 10;
+
+export const REPLAY_TICK_MS = 1000;
+// what a replay reports without an accuracy option: a clean lock
+export const REPLAY_ACCURACY_M = 5;
+
+export interface ReplayOptions {
+  speed?: ReplaySpeed;
+  // each fix is pushed up to this far off the track, deterministically
+  jitterMeters?: number;
+  // reported with every fix, as a GPS would
+  accuracyMeters?: number;
+  seed?: string;
+  // wall-clock time of the first fix; later fixes follow the track's clock
+  startTime?: number;
+}
+
+// Plays a recorded track as if it came from the GPS, so geo mode can be
+// tried on a laptop. Fixes go through the same filter as real ones.
+// advance() steps it by hand for deterministic tests.
+export class ReplayMovementController implements MovementController {
+  private callback: MoveCallback | null = null;
+  private stateCallback: ((state: GpsState) => void) | null = null;
+  private reported: GpsState | null = null;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private elapsed = 0;
+  // track time including the wait at the end of the track
+  private clock = 0;
+  private fixes = 0;
+  private currentSpeed: ReplaySpeed;
+  private filter: GpsFilter;
+  private readonly startTime: number;
+
+  constructor(
+    private readonly track: Track,
+    private readonly options: ReplayOptions = {},
+    getRules: () => WorldRules = () => DEFAULT_WORLD_RULES,
+  ) {
+    this.currentSpeed = options.speed ?? 1;
+    this.startTime = options.startTime ?? Date.now();
+    this.filter = new GpsFilter(getRules);
+  }
+
+  get speed(): ReplaySpeed {
+    return this.currentSpeed;
+  }
+
+  get state(): GpsState {
+    return this.filter.state;
+  }
+
+  get finished(): boolean {
+    return this.elapsed >= trackDuration(this.track);
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    this.currentSpeed = speed;
+  }
+
+  onMove(cb: MoveCallback): void {
+    this.callback = cb;
+  }
+
+  onStateChange(cb: (state: GpsState) => void): void {
+    this.stateCallback = cb;
+  }
+
+  // resumes where the replay was stopped, starting with a fix
+  start(): void {
+    this.filter.lose();
+    this.reportState();
+    this.emitFix();
+    this.timerId = setInterval(
+      () => this.advance(REPLAY_TICK_MS * this.currentSpeed),
+      REPLAY_TICK_MS,
+    );
+  }
+
+  stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  // moves along the track by ms of track time and reports the new fix; at
+  // the end it keeps reporting the last point, as a GPS standing still would
+  advance(ms: number): void {
+    if (ms <= 0) return;
+    this.clock += ms;
+    this.elapsed = Math.min(this.elapsed + ms, trackDuration(this.track));
+    this.emitFix();
+  }
+
+  private emitFix(): void {
+    const {
+      jitterMeters = 0,
+      accuracyMeters = REPLAY_ACCURACY_M,
+      seed = "",
+    } = this.options;
+    const fix = this.fixes++;
+    let pos = positionAt(this.track, this.elapsed);
+    if (jitterMeters > 0) {
+      pos = offsetMeters(
+        pos,
+        (luck(`${seed},replay,${fix},north`) * 2 - 1) * jitterMeters,
+        (luck(`${seed},replay,${fix},east`) * 2 - 1) * jitterMeters,
+      );
+    }
+    this.filter.push(
+      { ...pos, accuracy: accuracyMeters, time: this.startTime + this.clock },
+      (target, time) =>
+        this.callback?.(target.lat, target.lng, accuracyMeters, time) !==
+          false,
+    );
+    this.reportState();
+  }
+
+  private reportState(): void {
+    if (this.filter.state === this.reported) return;
+    this.reported = this.filter.state;
+    this.stateCallback?.(this.filter.state);
+  }
 }
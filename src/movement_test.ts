@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import {
+  ButtonMovementController,
+  planRoute,
+  REPEAT_DELAY_MS,
+  ReplayMovementController,
+} from "./movement.ts";
+import { parseTrack } from "./track.ts";
+import { centerPlayerOnGrid } from "./world.ts";
+import { createEngine } from "./_testing.ts";
+
+Deno.test("a replayed track moves the player cell by cell through the GPS filter", () => {
+  const engine = createEngine();
+  // ten cells north at one cell every ten seconds
+  const track = parseTrack(JSON.stringify({
+    type: "LineString",
+    coordinates: [[0.00005, 0.00005, 0, 0], [0.00005, 0.00105, 0, 100_000]],
+  }));
+  const replay = new ReplayMovementController(track, {
+    accuracyMeters: 12,
+    startTime: 5000,
+  });
+  const states: string[] = [];
+  replay.onStateChange((state) => states.push(state));
+  const fixes: [number | undefined, number | undefined][] = [];
+  replay.onMove((lat, lng, accuracy, time) => {
+    fixes.push([accuracy, time]);
+    engine.move(lat, lng);
+  });
+
+  const visited: number[] = [];
+  for (let step = 0; step < 110; step++) {
+    replay.advance(1000);
+    const cell = Math.round(engine.playerPos.lat / 0.0001 - 0.5);
+    if (visited.at(-1) !== cell) visited.push(cell);
+  }
+
+  assert.deepEqual(visited, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  assert.ok(replay.finished);
+  assert.deepEqual(states, ["locked"]);
+  // fixes carry the replay's accuracy and the track's clock
+  assert.ok(fixes.every(([accuracy]) => accuracy === 12));
+  assert.ok(fixes.every(([, time], n) => n === 0 || time! > fixes[n - 1][1]!));
+  assert.equal(fixes[0][1], 6000);
+});
+
+Deno.test("replayed fixes too inaccurate for the GPS filter are dropped", () => {
+  const track = parseTrack(JSON.stringify({
+    type: "LineString",
+    coordinates: [[0, 0, 0, 0], [0, 0.001, 0, 10_000]],
+  }));
+  const replay = new ReplayMovementController(track, { accuracyMeters: 100 });
+  let moves = 0;
+  replay.onMove(() => void moves++);
+  for (let step = 0; step < 20; step++) replay.advance(1000);
+
+  assert.equal(moves, 0);
+  assert.equal(replay.state, "weak");
+});
+
+Deno.test("replay jitter is deterministic", () => {
+  const track = parseTrack(JSON.stringify({
+    type: "LineString",
+    coordinates: [[0, 0], [0, 0.001]],
+  }));
+  const run = () => {
+    const replay = new ReplayMovementController(track, { jitterMeters: 10 });
+    const fixes: number[] = [];
+    replay.onMove((lat, lng) => void fixes.push(lat, lng));
+    for (let step = 0; step < 30; step++) replay.advance(1000);
+    return fixes;
+  };
+  const fixes = run();
+  assert.ok(fixes.length > 0);
+  assert.deepEqual(fixes, run());
+});
+
+Deno.test("click-to-travel routes are single grid steps to the target", () => {
+  const from = centerPlayerOnGrid(0, 0);
+  const to = centerPlayerOnGrid(0.0004, -0.0002);
+  const engine = createEngine();
+
+  const cells = planRoute(from, to).map(({ lat, lng }) => {
+    engine.move(lat, lng);
+    return [
+      Math.round(engine.playerPos.lat / 0.0001 - 0.5),
+      Math.round(engine.playerPos.lng / 0.0001 - 0.5),
+    ];
+  });
+
+  assert.equal(cells.length, 6);
+  assert.deepEqual(cells.at(-1), [4, -2]);
+  let previous = [0, 0];
+  for (const cell of cells) {
+    const distance = Math.abs(cell[0] - previous[0]) +
+      Math.abs(cell[1] - previous[1]);
+    assert.equal(distance, 1);
+    previous = cell;
+  }
+  assert.deepEqual(planRoute(from, from), []);
+});
+
+Deno.test("button movement steps diagonally and repeats held directions", async () => {
+  const engine = createEngine();
+  const controller = new ButtonMovementController(() => engine.playerPos);
+  controller.onMove((lat, lng) => engine.move(lat, lng));
+
+  controller.step({ north: 1, east: -1 });
+  assert.deepEqual(engine.playerPos, centerPlayerOnGrid(0.0001, -0.0001));
+
+  // held: one step right away, more after the repeat delay, none once released
+  controller.hold("dpad", { north: 1, east: 0 });
+  assert.deepEqual(engine.playerPos, centerPlayerOnGrid(0.0002, -0.0001));
+  await new Promise((resolve) => setTimeout(resolve, REPEAT_DELAY_MS + 50));
+  controller.hold("dpad", null);
+  const afterRelease = engine.playerPos;
+  assert.ok(afterRelease.lat > centerPlayerOnGrid(0.0002, 0).lat);
+
+  await new Promise((resolve) => setTimeout(resolve, REPEAT_DELAY_MS));
+  assert.deepEqual(engine.playerPos, afterRelease);
+});
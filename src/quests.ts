@@ -0,0 +1,378 @@
+import luck from "./_luck.ts";
+import type { ActionEvent, GameEvent } from "./engine.ts";
+import { distanceMeters } from "./track.ts";
+import {
+  BASE_SPIRIT_KINDS,
+  type BaseSpiritKind,
+  cellKey,
+  getCellCenter,
+  type LatLng,
+  type Spirit,
+  type WorldRules,
+} from "./world.ts";
+
+// --- Constants ---------------------------------------------------
+
+export const QUESTS_PER_DAY = 3;
+
+export const COMPASS_DIRECTIONS = ["north", "east", "south", "west"] as const;
+
+// --- Types -------------------------------------------------------
+
+export type CompassDirection = typeof COMPASS_DIRECTIONS[number];
+
+export type QuestGoal =
+  | { type: "pickup"; kind: BaseSpiritKind; count: number }
+  // merges that produce a spirit of this value
+  | { type: "merge"; value: number; count: number }
+  // one drop at least this far from where the day's quests were issued
+  | { type: "dropAway"; direction: CompassDirection; meters: number }
+  // cells never stood in before
+  | { type: "visit"; count: number };
+
+export interface Quest {
+  id: string;
+  goal: QuestGoal;
+  reward: Spirit;
+  progress: number;
+  // the reward spirit has been placed on the map
+  rewarded: boolean;
+}
+
+// MEMENTO PATTERN
+export interface QuestLog {
+  day: string;
+  // where the player stood and how many cells they had visited when the
+  // day's quests were issued
+  start: LatLng;
+  visitedAtStart: number;
+  // cells already counted for a pickup today, and cells the player filled
+  // (drops, merges, rewards): neither counts for a pickup again
+  pickedCells: string[];
+  filledCells: string[];
+  quests: Quest[];
+}
+
+// what the quests need to know beyond the event itself
+export interface QuestContext {
+  rules: WorldRules;
+  cellsVisited: number;
+}
+
+// --- Generation --------------------------------------------------
+
+const GOAL_TYPES: QuestGoal["type"][] = [
+  "pickup",
+  "merge",
+  "dropAway",
+  "visit",
+];
+
+// the UTC calendar day, e.g. "2024-05-31": the same day (and quests) as
+// the daily seed for everyone
+export function questDay(time = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function pick<T>(options: readonly T[], r: number): T {
+  return options[Math.floor(r * options.length)];
+}
+
+// the values that spawn, or 1 if nothing does
+function spawnValues(rules: WorldRules): number[] {
+  const values = rules.spawnTable.map(({ value }) => value);
+  return values.length > 0 ? values : [1];
+}
+
+function createGoal(
+  type: QuestGoal["type"],
+  roll: (field: string) => number,
+  rules: WorldRules,
+): QuestGoal {
+  switch (type) {
+    case "pickup":
+      return {
+        type,
+        kind: pick(BASE_SPIRIT_KINDS, roll("kind")),
+        count: 3 + Math.floor(roll("count") * 4),
+      };
+    case "merge":
+      return {
+        type,
+        value: pick(spawnValues(rules), roll("value")) * 2,
+        count: 2 + Math.floor(roll("count") * 3),
+      };
+    case "dropAway":
+      return {
+        type,
+        direction: pick(COMPASS_DIRECTIONS, roll("direction")),
+        meters: 100 + 50 * Math.floor(roll("meters") * 5),
+      };
+    case "visit":
+      return { type, count: 20 + 10 * Math.floor(roll("count") * 5) };
+  }
+}
+
+// the same day and rules always give the same quests, each of another type
+export function generateDailyQuests(day: string, rules: WorldRules): Quest[] {
+  const first = Math.floor(luck(`${rules.seed},${day},quests`) * 4);
+  return Array.from({ length: QUESTS_PER_DAY }, (_, n) => {
+    const roll = (field: string) =>
+      luck(`${rules.seed},${day},quest,${n},${field}`);
+    return {
+      id: `${day}:${n}`,
+      goal: createGoal(
+        GOAL_TYPES[(first + n) % GOAL_TYPES.length],
+        roll,
+        rules,
+      ),
+      reward: {
+        kind: pick(BASE_SPIRIT_KINDS, roll("reward")),
+        value: Math.max(...spawnValues(rules)) * 2,
+      },
+      progress: 0,
+      rewarded: false,
+    };
+  });
+}
+
+// --- Progress ----------------------------------------------------
+
+export function questTarget(goal: QuestGoal): number {
+  return goal.type === "dropAway" ? 1 : goal.count;
+}
+
+export function isQuestComplete(quest: Quest): boolean {
+  return quest.progress >= questTarget(quest.goal);
+}
+
+// signed distance travelled from one point towards a compass direction
+function metersToward(
+  direction: CompassDirection,
+  from: LatLng,
+  to: LatLng,
+): number {
+  const alongAxis = direction === "north" || direction === "south"
+    ? { lat: to.lat, lng: from.lng }
+    : { lat: from.lat, lng: to.lng };
+  const ahead = {
+    north: to.lat > from.lat,
+    south: to.lat < from.lat,
+    east: to.lng > from.lng,
+    west: to.lng < from.lng,
+  }[direction];
+  const meters = distanceMeters(from, alongAxis);
+  return ahead ? meters : -meters;
+}
+
+// what an event adds to a goal, or null if it has nothing to do with it;
+// visits report the running total instead
+function progressFrom(
+  goal: QuestGoal,
+  event: GameEvent,
+  log: QuestLog,
+  context: QuestContext,
+): number | null {
+  switch (goal.type) {
+    case "pickup":
+      return event.type === "picked" && event.kind === goal.kind &&
+          !log.filledCells.includes(cellKey(event.i, event.j))
+        ? 1
+        : null;
+    case "merge":
+      return event.type === "merged" && event.value === goal.value ? 1 : null;
+    case "dropAway": {
+      if (event.type !== "dropped") return null;
+      const at = getCellCenter(event.i, event.j, context.rules);
+      return metersToward(goal.direction, log.start, at) >= goal.meters
+        ? 1
+        : null;
+    }
+    case "visit":
+      return event.type === "moved"
+        ? context.cellsVisited - log.visitedAtStart
+        : null;
+  }
+}
+
+// Today's quests and how far along they are. New quests are issued the
+// first time the board is used on a new day.
+export class QuestBoard {
+  private log: QuestLog | null = null;
+
+  get quests(): readonly Quest[] {
+    return this.log?.quests ?? [];
+  }
+
+  // issues the day's quests unless they already are; true when it did
+  startDay(day: string, start: LatLng, context: QuestContext): boolean {
+    if (this.log?.day === day) return false;
+    this.log = {
+      day,
+      start: { ...start },
+      visitedAtStart: context.cellsVisited,
+      pickedCells: [],
+      filledCells: [],
+      quests: generateDailyQuests(day, context.rules),
+    };
+    return true;
+  }
+
+  // OBSERVER PATTERN
+  // returns the quests whose progress changed
+  recordEvent(event: GameEvent, context: QuestContext): Quest[] {
+    // only actions still in the undo history count
+    if (event.type === "redone") return this.recordEvent(event.event, context);
+    if (event.type === "undone") return this.takeBack(event.event, context);
+
+    const log = this.log;
+    if (!log) return [];
+    if (event.type === "picked") {
+      const key = cellKey(event.i, event.j);
+      // a cell only counts once a day
+      if (log.pickedCells.includes(key)) return [];
+      if (!log.filledCells.includes(key)) log.pickedCells.push(key);
+    }
+    if (
+      event.type === "dropped" || event.type === "merged" ||
+      event.type === "rewarded"
+    ) {
+      const key = cellKey(event.i, event.j);
+      if (!log.filledCells.includes(key)) log.filledCells.push(key);
+    }
+
+    return log.quests.filter((quest) => {
+      if (isQuestComplete(quest)) return false;
+      const progress = progressFrom(quest.goal, event, log, context);
+      if (progress === null) return false;
+
+      const next = Math.min(
+        questTarget(quest.goal),
+        quest.goal.type === "visit"
+          ? Math.max(quest.progress, progress)
+          : quest.progress + progress,
+      );
+      if (next === quest.progress) return false;
+      quest.progress = next;
+      return true;
+    });
+  }
+
+  // rewarded quests stay complete, since their reward can't be taken back;
+  // visits are never undone. Filled cells stay filled
+  private takeBack(event: ActionEvent, context: QuestContext): Quest[] {
+    const log = this.log;
+    if (!log) return [];
+    if (event.type === "picked") {
+      const picked = log.pickedCells.indexOf(cellKey(event.i, event.j));
+      if (picked === -1) return [];
+      log.pickedCells.splice(picked, 1);
+    }
+
+    return log.quests.filter((quest) => {
+      if (quest.rewarded || quest.goal.type === "visit") return false;
+      const progress = progressFrom(quest.goal, event, log, context);
+      if (progress === null || quest.progress === 0) return false;
+      quest.progress = Math.max(0, quest.progress - progress);
+      return true;
+    });
+  }
+
+  // complete quests whose reward is still to be placed
+  get pendingRewards(): Quest[] {
+    return this.quests.filter((quest) =>
+      isQuestComplete(quest) && !quest.rewarded
+    );
+  }
+
+  markRewarded(id: string): void {
+    const quest = this.log?.quests.find((quest) => quest.id === id);
+    if (quest) quest.rewarded = true;
+  }
+
+  // MEMENTO PATTERN
+  save(): QuestLog | null {
+    return this.log && structuredClone(this.log);
+  }
+
+  // MEMENTO PATTERN
+  load(log: QuestLog | null): void {
+    this.log = log && structuredClone(log);
+  }
+}
+
+// --- Validation --------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isKeyList(value: unknown): value is string[] {
+  return Array.isArray(value) &&
+    value.every((key) => typeof key === "string");
+}
+
+function isPoint(value: unknown): value is LatLng {
+  return isObject(value) && Number.isFinite(value.lat) &&
+    Number.isFinite(value.lng);
+}
+
+function isGoal(value: unknown): value is QuestGoal {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case "pickup":
+      return (BASE_SPIRIT_KINDS as readonly unknown[]).includes(value.kind) &&
+        isCount(value.count);
+    case "merge":
+      return isCount(value.value) && isCount(value.count);
+    case "dropAway":
+      return (COMPASS_DIRECTIONS as readonly unknown[]).includes(
+        value.direction,
+      ) && Number.isFinite(value.meters);
+    case "visit":
+      return isCount(value.count);
+    default:
+      return false;
+  }
+}
+
+function isQuest(value: unknown): value is Quest {
+  return (
+    isObject(value) &&
+    typeof value.id === "string" &&
+    isGoal(value.goal) &&
+    isObject(value.reward) &&
+    (BASE_SPIRIT_KINDS as readonly unknown[]).includes(value.reward.kind) &&
+    isCount(value.reward.value) &&
+    isCount(value.progress) &&
+    typeof value.rewarded === "boolean"
+  );
+}
+
+// returns null when the stored quests can't be trusted
+export function parseQuestLog(value: unknown): QuestLog | null {
+  if (
+    !isObject(value) ||
+    typeof value.day !== "string" ||
+    !isPoint(value.start) ||
+    !isCount(value.visitedAtStart) ||
+    !Array.isArray(value.quests) ||
+    !value.quests.every(isQuest)
+  ) {
+    return null;
+  }
+
+  return {
+    day: value.day,
+    start: { lat: value.start.lat, lng: value.start.lng },
+    visitedAtStart: value.visitedAtStart,
+    // logs saved before these were kept start the day's cells over
+    pickedCells: isKeyList(value.pickedCells) ? [...value.pickedCells] : [],
+    filledCells: isKeyList(value.filledCells) ? [...value.filledCells] : [],
+    quests: structuredClone(value.quests),
+  };
+}
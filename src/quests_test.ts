@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { createDailySeed, DEFAULT_CONFIG } from "./config.ts";
+import {
+  generateDailyQuests,
+  parseQuestLog,
+  QuestBoard,
+  questDay,
+} from "./quests.ts";
+import { createEngine, ember } from "./_testing.ts";
+
+Deno.test("daily quests are deterministic, track events and pay out", () => {
+  const rules = { ...DEFAULT_CONFIG, seed: "quests" };
+  const day = "2024-05-31";
+  assert.deepEqual(
+    generateDailyQuests(day, rules),
+    generateDailyQuests(day, rules),
+  );
+  const types = generateDailyQuests(day, rules).map(({ goal }) => goal.type);
+  assert.equal(new Set(types).size, types.length);
+
+  const engine = createEngine([["1,0", 2], ["2,0", 2]]);
+  const board = new QuestBoard();
+  const context = { rules: engine.config, cellsVisited: 0 };
+  board.startDay(day, engine.playerPos, context);
+  assert.ok(!board.startDay(day, engine.playerPos, context));
+  // swap in a known quest to drive it from real engine events
+  const quest = {
+    id: `${day}:0`,
+    goal: { type: "merge" as const, value: 4, count: 1 },
+    reward: ember(8),
+    progress: 0,
+    rewarded: false,
+  };
+  board.load({ ...board.save()!, quests: [quest] });
+  engine.subscribe((event) => board.recordEvent(event, context));
+
+  engine.interact(1, 0);
+  assert.equal(board.quests[0].progress, 0);
+  engine.interact(2, 0);
+  assert.equal(board.quests[0].progress, 1);
+  assert.deepEqual(board.pendingRewards.map(({ id }) => id), [quest.id]);
+
+  const reward = engine.grantSpirit(quest.reward);
+  assert.equal(reward?.type, "rewarded");
+  assert.deepEqual(engine.getSpirit(1, 0), ember(8));
+  board.markRewarded(quest.id);
+  assert.equal(board.pendingRewards.length, 0);
+
+  // a rewarded quest keeps its progress when its action is undone
+  engine.undo();
+  assert.equal(board.quests[0].progress, 1);
+
+  const restored = parseQuestLog(JSON.parse(JSON.stringify(board.save())));
+  assert.deepEqual(restored, board.save());
+});
+
+Deno.test("undoing an action takes back its quest progress", () => {
+  const day = "2024-05-31";
+  const engine = createEngine([["1,0", 2]]);
+  const board = new QuestBoard();
+  const context = { rules: engine.config, cellsVisited: 0 };
+  board.startDay(day, engine.playerPos, context);
+  board.load({
+    ...board.save()!,
+    quests: [{
+      id: `${day}:0`,
+      goal: { type: "pickup", kind: "ember", count: 2 },
+      reward: ember(8),
+      progress: 0,
+      rewarded: false,
+    }],
+  });
+  engine.subscribe((event) => board.recordEvent(event, context));
+
+  engine.interact(1, 0);
+  engine.undo();
+  assert.equal(board.quests[0].progress, 0);
+  engine.interact(1, 0);
+  assert.equal(board.quests[0].progress, 1);
+
+  engine.undo();
+  engine.redo();
+  assert.equal(board.quests[0].progress, 1);
+  assert.equal(board.pendingRewards.length, 0);
+});
+
+Deno.test("only spirits the player didn't place count as pickups", () => {
+  const day = "2024-05-31";
+  const engine = createEngine([["1,0", 0], ["2,0", 2], ["3,0", 2]]);
+  const board = new QuestBoard();
+  const context = { rules: engine.config, cellsVisited: 0 };
+  board.startDay(day, engine.playerPos, context);
+  board.load({
+    ...board.save()!,
+    quests: [{
+      id: `${day}:0`,
+      goal: { type: "pickup", kind: "ember", count: 3 },
+      reward: ember(8),
+      progress: 0,
+      rewarded: false,
+    }],
+  });
+  engine.subscribe((event) => board.recordEvent(event, context));
+
+  // a reward spirit doesn't count
+  assert.deepEqual(engine.grantSpirit(ember(4)), {
+    type: "rewarded",
+    i: 1,
+    j: 0,
+    ...ember(4),
+  });
+  engine.interact(1, 0);
+  engine.interact(1, 0);
+  assert.equal(board.quests[0].progress, 0);
+
+  // dropping and picking up the same spirit counts once
+  engine.interact(2, 0);
+  for (let n = 0; n < 3; n++) {
+    engine.interact(2, 0);
+    engine.interact(2, 0);
+  }
+  assert.equal(board.quests[0].progress, 1);
+
+  engine.interact(2, 0);
+  engine.interact(3, 0);
+  assert.equal(board.quests[0].progress, 2);
+});
+
+Deno.test("quest days and daily seeds follow the UTC calendar", () => {
+  // late evening in New York is already tomorrow in UTC
+  const newYorkEvening = Date.parse("2024-05-31T22:30:00-04:00");
+  const tokyoMorning = Date.parse("2024-06-01T11:30:00+09:00");
+
+  assert.equal(questDay(newYorkEvening), "2024-06-01");
+  assert.equal(questDay(tokyoMorning), "2024-06-01");
+  assert.equal(createDailySeed(new Date(newYorkEvening)), "daily-2024-06-01");
+  assert.equal(
+    createDailySeed(new Date(tokyoMorning)),
+    createDailySeed(new Date(newYorkEvening)),
+  );
+  assert.equal(questDay(Date.parse("2024-06-01T23:59:59Z")), "2024-06-01");
+  assert.equal(questDay(Date.parse("2024-06-02T00:00:00Z")), "2024-06-02");
+});
@@ -0,0 +1,39 @@
+import type { Spirit, SpiritKind } from "./world.ts";
+
+// --- Types -------------------------------------------------------
+
+// two different kinds of equal value that fuse into a special spirit
+export interface Recipe {
+  inputs: [SpiritKind, SpiritKind];
+  result: SpiritKind;
+  multiplier: number;
+}
+
+// --- Recipe table ------------------------------------------------
+
+// same-kind merges always double; these are the cross-kind pairs
+export const RECIPES: Recipe[] = [
+  { inputs: ["ember", "tide"], result: "steam", multiplier: 3 },
+  { inputs: ["tide", "grove"], result: "bloom", multiplier: 3 },
+  { inputs: ["grove", "ember"], result: "wildfire", multiplier: 3 },
+];
+
+export function findRecipe(a: SpiritKind, b: SpiritKind): Recipe | null {
+  return RECIPES.find(({ inputs: [x, y] }) =>
+    (x === a && y === b) || (x === b && y === a)
+  ) ?? null;
+}
+
+// what merging the held spirit into a cell's spirit makes, or null if the
+// two resist each other
+export function combineSpirits(held: Spirit, target: Spirit): Spirit | null {
+  if (held.value !== target.value) return null;
+  if (held.kind === target.kind) {
+    return { kind: held.kind, value: held.value * 2 };
+  }
+
+  const recipe = findRecipe(held.kind, target.kind);
+  return recipe
+    ? { kind: recipe.result, value: held.value * recipe.multiplier }
+    : null;
+}
@@ -0,0 +1,474 @@
+import { DEFAULT_CONFIG, type GameConfig, parseGameConfig } from "./config.ts";
+import {
+  createEmptyExploration,
+  type ExplorationMemento,
+  parseExploration,
+} from "./exploration.ts";
+import type { GeoAnchor } from "./gps.ts";
+import { parseQuestLog, type QuestLog } from "./quests.ts";
+import type { HistoryEntry, HistoryState, StateDelta } from "./history.ts";
+import {
+  BASE_SPIRIT_KINDS,
+  type CellMemento,
+  SPECIAL_SPIRIT_KINDS,
+  type Spirit,
+  type SpiritKind,
+} from "./world.ts";
+
+// --- Save schema -------------------------------------------------
+
+export const SAVE_VERSION = 12;
+
+export type MovementMode = "button" | "geo";
+
+// MEMENTO PATTERN
+export interface SaveFile {
+  version: typeof SAVE_VERSION;
+  savedAt: number;
+  player: { lat: number; lng: number } | null;
+  inventory: (Spirit | null)[];
+  selectedSlot: number;
+  cellMemory: [string, CellMemento][];
+  movementMode: MovementMode;
+  history: HistoryState;
+  config: GameConfig;
+  // last geo position that passed the speed check
+  geoAnchor: GeoAnchor | null;
+  // visited cells and fog, stored beside the cells as compact bitsets
+  exploration: ExplorationMemento;
+  // play time of this run, for the fastest victory record; null for runs
+  // that weren't timed from their start
+  runTimeMs: number | null;
+  // today's quests; null until the first quests are issued
+  quests: QuestLog | null;
+}
+
+export type LoadResult =
+  | { status: "ok"; save: SaveFile }
+  | { status: "repaired"; save: SaveFile; problems: string[] }
+  | { status: "discarded"; problems: string[] };
+
+// --- Migrations --------------------------------------------------
+
+type RawSave = Record<string, unknown>;
+
+// each entry upgrades a save from version N to version N + 1
+const MIGRATIONS: Record<number, (data: RawSave) => RawSave> = {
+  // v1 had no version number or timestamp
+  1: (data) => ({ ...data, version: 2, savedAt: Date.now() }),
+  // v2 had no undo history
+  2: (data) => ({ ...data, version: 3, history: { undo: [], redo: [] } }),
+  // v3 held a single spirit instead of an inventory
+  3: (data) => ({
+    ...heldToInventory(data),
+    version: 4,
+    history: migrateHistoryToInventory(data.history),
+  }),
+  // v4 always played with the normal rules
+  4: (data) => ({ ...data, version: 5, config: DEFAULT_CONFIG }),
+  // v5 worlds were unseeded; the empty seed keeps their layout
+  5: (data) => ({
+    ...data,
+    version: 6,
+    config: isObject(data.config) ? { ...data.config, seed: "" } : data.config,
+  }),
+  // v6 cells did not record when they changed and never respawned
+  6: (data) => ({
+    ...data,
+    version: 7,
+    config: isObject(data.config)
+      ? { ...data.config, respawnCooldownMs: DEFAULT_CONFIG.respawnCooldownMs }
+      : data.config,
+    cellMemory: Array.isArray(data.cellMemory)
+      ? data.cellMemory.map((entry) =>
+        Array.isArray(entry) && isObject(entry[1])
+          ? [entry[0], { ...entry[1], changedAt: data.savedAt ?? Date.now() }]
+          : entry
+      )
+      : data.cellMemory,
+  }),
+  // v7 did not check geo moves against a speed limit
+  7: (data) => ({ ...data, version: 8, geoAnchor: null }),
+  // v8 spirits were bare values; kindless cells keep reading as the kind
+  // their spot spawns with, so only carried spirits need one
+  8: (data) => ({
+    ...kindInventory(data),
+    version: 9,
+    history: mapHistoryDeltas(data.history, kindInventory),
+  }),
+  // v9 did not record where the player had been
+  9: (data) => ({
+    ...data,
+    version: 10,
+    exploration: createEmptyExploration(),
+  }),
+  // v10 runs were not timed, and can't be now
+  10: (data) => ({ ...data, version: 11, runTimeMs: null }),
+  // v11 had no quests
+  11: (data) => ({ ...data, version: 12, quests: null }),
+};
+
+// carried spirits of unknown origin become the first base kind
+function kindInventory(data: RawSave): RawSave {
+  if (!Array.isArray(data.inventory)) return data;
+  return {
+    ...data,
+    inventory: data.inventory.map((slot) =>
+      typeof slot === "number"
+        ? { kind: BASE_SPIRIT_KINDS[0], value: slot }
+        : slot
+    ),
+  };
+}
+
+function heldToInventory(data: RawSave): RawSave {
+  const { heldSpirit, ...rest } = data;
+  return { ...rest, inventory: [heldSpirit ?? null], selectedSlot: 0 };
+}
+
+function migrateHistoryToInventory(history: unknown): unknown {
+  return mapHistoryDeltas(history, heldToInventory);
+}
+
+// applies a migration to the before / after state of every history entry
+function mapHistoryDeltas(
+  history: unknown,
+  migrateDelta: (delta: RawSave) => RawSave,
+): unknown {
+  if (!isObject(history)) return history;
+  const migrateEntries = (entries: unknown) =>
+    Array.isArray(entries)
+      ? entries.map((entry) =>
+        isObject(entry) && isObject(entry.before) && isObject(entry.after)
+          ? {
+            ...entry,
+            before: migrateDelta(entry.before),
+            after: migrateDelta(entry.after),
+          }
+          : entry
+      )
+      : entries;
+  return {
+    undo: migrateEntries(history.undo),
+    redo: migrateEntries(history.redo),
+  };
+}
+
+function getVersion(data: RawSave): number {
+  return data.version === undefined ? 1 : Number(data.version);
+}
+
+function migrate(data: RawSave): RawSave {
+  let current = data;
+  let version = getVersion(current);
+
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from save version ${version}.`);
+    current = step(current);
+    version = getVersion(current);
+  }
+
+  return current;
+}
+
+// --- Validation --------------------------------------------------
+
+const CELL_KEY_PATTERN = /^-?\d+,-?\d+$/;
+
+function isObject(value: unknown): value is RawSave {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSpiritValue(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+// shared with the sync protocol, which carries the same cells and positions
+export function isCellKey(value: unknown): value is string {
+  return typeof value === "string" && CELL_KEY_PATTERN.test(value);
+}
+
+export function isLatLng(
+  value: unknown,
+): value is { lat: number; lng: number } {
+  if (!isObject(value)) return false;
+  const { lat, lng } = value;
+  return (
+    typeof lat === "number" && Number.isFinite(lat) &&
+    typeof lng === "number" && Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+  );
+}
+
+function isGeoAnchor(value: unknown): value is GeoAnchor {
+  return (
+    isObject(value) &&
+    typeof value.time === "number" && Number.isFinite(value.time) &&
+    isLatLng(value)
+  );
+}
+
+const SPIRIT_KINDS = new Set<unknown>([
+  ...BASE_SPIRIT_KINDS,
+  ...SPECIAL_SPIRIT_KINDS,
+]);
+
+function isSpiritKind(value: unknown): value is SpiritKind {
+  return SPIRIT_KINDS.has(value);
+}
+
+function isSpirit(value: unknown): value is Spirit {
+  return (
+    isObject(value) &&
+    isSpiritKind(value.kind) &&
+    isSpiritValue(value.value) && value.value > 0
+  );
+}
+
+export function isCellMemento(value: unknown): value is CellMemento {
+  return (
+    isObject(value) &&
+    isSpiritValue(value.value) &&
+    (value.kind === undefined || isSpiritKind(value.kind)) &&
+    (value.changedAt === undefined ||
+      (typeof value.changedAt === "number" &&
+        Number.isFinite(value.changedAt))) &&
+    (value.personal === undefined || value.personal === true) &&
+    (value.regrows === undefined || value.regrows === true)
+  );
+}
+
+// empty cells drop their kind and are never personal; only they regrow
+function toCellMemento(
+  { value, kind, changedAt, personal, regrows }: CellMemento,
+): CellMemento {
+  const memento: CellMemento = kind !== undefined && value > 0
+    ? { value, kind }
+    : { value };
+  if (changedAt !== undefined) memento.changedAt = changedAt;
+  if (personal && value > 0) memento.personal = true;
+  if (regrows && value === 0) memento.regrows = true;
+  return memento;
+}
+
+function validateCellMemory(
+  value: unknown,
+  problems: string[],
+): [string, CellMemento][] {
+  if (!Array.isArray(value)) {
+    problems.push("cell memory was unreadable");
+    return [];
+  }
+
+  const entries: [string, CellMemento][] = [];
+  let dropped = 0;
+
+  for (const entry of value) {
+    if (
+      Array.isArray(entry) &&
+      typeof entry[0] === "string" &&
+      CELL_KEY_PATTERN.test(entry[0]) &&
+      isCellMemento(entry[1])
+    ) {
+      entries.push([entry[0], toCellMemento(entry[1])]);
+    } else {
+      dropped++;
+    }
+  }
+
+  if (dropped > 0) problems.push(`${dropped} corrupted cell(s) were reset`);
+  return entries;
+}
+
+const HISTORY_ACTIONS = new Set(["move", "pickup", "merge", "drop"]);
+
+function isInventorySlot(value: unknown): value is Spirit | null {
+  return value === null || isSpirit(value);
+}
+
+function isStateDelta(value: unknown): value is StateDelta {
+  if (!isObject(value) || !isLatLng(value.playerPos)) return false;
+  const { inventory, selectedSlot, cells } = value;
+  return (
+    Array.isArray(inventory) && inventory.every(isInventorySlot) &&
+    isSpiritValue(selectedSlot) &&
+    Array.isArray(cells) &&
+    cells.every((cell) =>
+      Array.isArray(cell) &&
+      typeof cell[0] === "string" && CELL_KEY_PATTERN.test(cell[0]) &&
+      (cell[1] === null || isCellMemento(cell[1]))
+    )
+  );
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  return (
+    isObject(value) &&
+    HISTORY_ACTIONS.has(value.action as string) &&
+    isStateDelta(value.before) &&
+    isStateDelta(value.after) &&
+    (value.moves === undefined ||
+      (Number.isInteger(value.moves) && (value.moves as number) >= 1))
+  );
+}
+
+function validateHistory(value: unknown, problems: string[]): HistoryState {
+  if (
+    isObject(value) &&
+    Array.isArray(value.undo) && value.undo.every(isHistoryEntry) &&
+    Array.isArray(value.redo) && value.redo.every(isHistoryEntry)
+  ) {
+    return { undo: value.undo, redo: value.redo };
+  }
+
+  problems.push("undo history was reset");
+  return { undo: [], redo: [] };
+}
+
+function validate(data: RawSave, problems: string[]): SaveFile {
+  let player: SaveFile["player"] = null;
+  if (isLatLng(data.player)) {
+    player = { lat: data.player.lat, lng: data.player.lng };
+  } else {
+    problems.push("player position was invalid");
+  }
+
+  let inventory: (Spirit | null)[] = [];
+  if (Array.isArray(data.inventory)) {
+    inventory = data.inventory.map((slot) =>
+      isSpirit(slot) ? { kind: slot.kind, value: slot.value } : null
+    );
+    if (!data.inventory.every(isInventorySlot)) {
+      problems.push("invalid inventory spirits were removed");
+    }
+  } else {
+    problems.push("inventory was unreadable");
+  }
+
+  let selectedSlot = 0;
+  if (isSpiritValue(data.selectedSlot)) {
+    selectedSlot = data.selectedSlot;
+  } else {
+    problems.push("selected inventory slot was invalid");
+  }
+
+  let movementMode: MovementMode = "button";
+  if (data.movementMode === "geo" || data.movementMode === "button") {
+    movementMode = data.movementMode;
+  } else {
+    problems.push("movement mode was invalid");
+  }
+
+  let config = parseGameConfig(data.config);
+  if (!config) {
+    problems.push("game rules were invalid, normal rules restored");
+    config = DEFAULT_CONFIG;
+  }
+
+  let geoAnchor: GeoAnchor | null = null;
+  if (isGeoAnchor(data.geoAnchor)) {
+    const { lat, lng, time } = data.geoAnchor;
+    geoAnchor = { lat, lng, time };
+  } else if (data.geoAnchor !== null) {
+    problems.push("geo speed check was reset");
+  }
+
+  let exploration = parseExploration(data.exploration);
+  if (!exploration) {
+    problems.push("exploration map was reset");
+    exploration = createEmptyExploration();
+  }
+
+  let runTimeMs: number | null = null;
+  if (
+    data.runTimeMs === null ||
+    typeof data.runTimeMs === "number" && Number.isFinite(data.runTimeMs) &&
+      data.runTimeMs >= 0
+  ) {
+    runTimeMs = data.runTimeMs;
+  } else {
+    problems.push("run timer was lost");
+  }
+
+  const quests = data.quests === null ? null : parseQuestLog(data.quests);
+  if (data.quests !== null && !quests) {
+    problems.push("daily quests were reset");
+  }
+
+  const savedAt = typeof data.savedAt === "number" &&
+      Number.isFinite(data.savedAt)
+    ? data.savedAt
+    : Date.now();
+
+  return {
+    version: SAVE_VERSION,
+    savedAt,
+    player,
+    inventory,
+    selectedSlot,
+    cellMemory: validateCellMemory(data.cellMemory, problems),
+    movementMode,
+    history: validateHistory(data.history, problems),
+    config,
+    geoAnchor,
+    exploration,
+    runTimeMs,
+    quests,
+  };
+}
+
+// --- Public API --------------------------------------------------
+
+export function serializeSave(save: Omit<SaveFile, "version">): string {
+  return JSON.stringify({ version: SAVE_VERSION, ...save });
+}
+
+// one chunk of cell memory, stored beside the save it belongs to
+export function serializeCellChunk(cells: [string, CellMemento][]): string {
+  return JSON.stringify(cells);
+}
+
+// corrupted cells are dropped; an unreadable chunk yields null
+export function parseCellChunk(raw: string): [string, CellMemento][] | null {
+  try {
+    return validateCellMemory(JSON.parse(raw), []);
+  } catch {
+    return null;
+  }
+}
+
+export function parseSave(raw: string): LoadResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { status: "discarded", problems: ["save was not valid JSON"] };
+  }
+
+  if (!isObject(data)) {
+    return { status: "discarded", problems: ["save had an unknown format"] };
+  }
+
+  const version = getVersion(data);
+  if (!Number.isInteger(version) || version < 1 || version > SAVE_VERSION) {
+    return {
+      status: "discarded",
+      problems: [`save version ${String(data.version)} is not supported`],
+    };
+  }
+
+  let migrated: RawSave;
+  try {
+    migrated = migrate(data);
+  } catch (err) {
+    return { status: "discarded", problems: [(err as Error).message] };
+  }
+
+  const problems: string[] = [];
+  const save = validate(migrated, problems);
+
+  return problems.length > 0
+    ? { status: "repaired", save, problems }
+    : { status: "ok", save };
+}
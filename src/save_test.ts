@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { DEFAULT_CONFIG } from "./config.ts";
+import { parseSave, SAVE_VERSION, serializeSave } from "./save.ts";
+import { createEngine, ember } from "./_testing.ts";
+
+Deno.test("version 8 saves give carried spirits a kind", () => {
+  const result = parseSave(JSON.stringify({
+    version: 8,
+    savedAt: 1,
+    player: { lat: 0, lng: 0 },
+    inventory: [2, null],
+    selectedSlot: 0,
+    cellMemory: [["1,0", { value: 4 }]],
+    movementMode: "button",
+    history: { undo: [], redo: [] },
+    config: DEFAULT_CONFIG,
+    geoAnchor: null,
+  }));
+
+  assert.equal(result.status, "ok");
+  if (result.status !== "ok") return;
+  assert.deepEqual(result.save.inventory, [ember(2), null]);
+  // kindless cells read as the kind their spot spawns with
+  assert.deepEqual(result.save.cellMemory, [["1,0", { value: 4 }]]);
+  const engine = createEngine();
+  engine.restore({ ...engine.snapshot(), cellMemory: result.save.cellMemory });
+  assert.equal(engine.getSpirit(1, 0)?.value, 4);
+});
+
+// the first save format: no version, one held spirit
+const V1_SAVE = {
+  player: { lat: 1, lng: 2 },
+  heldSpirit: 2,
+  cellMemory: [["1,0", { value: 4 }]],
+  movementMode: "geo",
+};
+
+Deno.test("version 1 saves migrate all the way to the current version", () => {
+  const result = parseSave(JSON.stringify(V1_SAVE));
+
+  assert.equal(result.status, "ok");
+  if (result.status !== "ok") return;
+  const { save } = result;
+  assert.equal(save.version, SAVE_VERSION);
+  assert.deepEqual(save.player, { lat: 1, lng: 2 });
+  assert.deepEqual(save.inventory, [ember(2)]);
+  assert.equal(save.selectedSlot, 0);
+  assert.equal(save.movementMode, "geo");
+  assert.deepEqual(save.history, { undo: [], redo: [] });
+  // unseeded, so the old layout stays where it was
+  assert.deepEqual(save.config, { ...DEFAULT_CONFIG, seed: "" });
+  assert.deepEqual(save.cellMemory, [
+    ["1,0", { value: 4, changedAt: save.savedAt }],
+  ]);
+  assert.equal(save.geoAnchor, null);
+  assert.equal(save.exploration.visited.length, 0);
+  // older runs weren't timed from the start, so they stay untimed
+  assert.equal(save.runTimeMs, null);
+  assert.equal(save.quests, null);
+});
+
+Deno.test("bad positions, cells and inventory spirits are repaired", () => {
+  const migrated = parseSave(JSON.stringify(V1_SAVE));
+  assert.ok(migrated.status !== "discarded");
+
+  const result = parseSave(JSON.stringify({
+    ...migrated.save,
+    player: { lat: 91, lng: 2 },
+    inventory: [ember(2), { kind: "ember", value: -1 }, { kind: "x" }, 4],
+    cellMemory: [
+      ["1,0", { value: 4 }],
+      ["north", { value: 2 }],
+      ["2,0", { value: "x" }],
+      ["3,0", { value: 2, kind: "lava" }],
+    ],
+  }));
+
+  assert.equal(result.status, "repaired");
+  if (result.status !== "repaired") return;
+  assert.equal(result.save.player, null);
+  assert.deepEqual(result.save.inventory, [ember(2), null, null, null]);
+  assert.deepEqual(result.save.cellMemory, [["1,0", { value: 4 }]]);
+  assert.deepEqual(result.problems, [
+    "player position was invalid",
+    "invalid inventory spirits were removed",
+    "3 corrupted cell(s) were reset",
+  ]);
+
+  const unreadable = parseSave(JSON.stringify({
+    ...migrated.save,
+    player: { lat: "1", lng: 2 },
+    inventory: "ember",
+  }));
+  assert.equal(unreadable.status, "repaired");
+  if (unreadable.status !== "repaired") return;
+  assert.equal(unreadable.save.player, null);
+  assert.deepEqual(unreadable.save.inventory, []);
+  assert.deepEqual(unreadable.problems, [
+    "player position was invalid",
+    "inventory was unreadable",
+  ]);
+});
+
+Deno.test("an exported save imports unchanged", () => {
+  const migrated = parseSave(JSON.stringify(V1_SAVE));
+  assert.ok(migrated.status !== "discarded");
+  const { version: _, ...save } = migrated.save;
+
+  const result = parseSave(serializeSave(save));
+  assert.deepEqual(result, { status: "ok", save: migrated.save });
+});
+
+Deno.test("unreadable and newer saves are discarded", () => {
+  // the reasons are shown when an imported file is rejected
+  const rejected = (problem: string) => ({
+    status: "discarded",
+    problems: [problem],
+  });
+  assert.deepEqual(
+    parseSave("<gpx></gpx>"),
+    rejected("save was not valid JSON"),
+  );
+  assert.deepEqual(parseSave("[]"), rejected("save had an unknown format"));
+  assert.deepEqual(parseSave("null"), rejected("save had an unknown format"));
+  assert.deepEqual(
+    parseSave(JSON.stringify({ ...V1_SAVE, version: "latest" })),
+    rejected("save version latest is not supported"),
+  );
+  assert.deepEqual(
+    parseSave(JSON.stringify({ ...V1_SAVE, version: SAVE_VERSION + 1 })),
+    rejected(`save version ${SAVE_VERSION + 1} is not supported`),
+  );
+});
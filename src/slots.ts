@@ -0,0 +1,262 @@
+import type { ChunkStorage } from "./cellMemory.ts";
+import { parseCellChunk, parseSave, serializeCellChunk } from "./save.ts";
+
+// --- Storage keys ------------------------------------------------
+
+const SLOT_INDEX_KEY = "dreamlink-slots";
+const SLOT_SAVE_PREFIX = "dreamlink-save:";
+const SLOT_CHUNK_PREFIX = "dreamlink-chunk:";
+
+// single-save keys from before save slots existed
+const LEGACY_SAVE_KEYS = ["dreamlink-save", "dreamlink-save-v1"];
+
+// --- Types -------------------------------------------------------
+
+export interface SaveSlot {
+  id: string;
+  name: string;
+}
+
+export interface SlotSummary extends SaveSlot {
+  lastPlayed: number | null;
+  player: { lat: number; lng: number } | null;
+  highestSpirit: number;
+  seed: string;
+}
+
+interface SlotIndex {
+  activeId: string;
+  slots: SaveSlot[];
+}
+
+// --- Slot manager ------------------------------------------------
+
+// Keeps one memento per slot in localStorage plus a small index that
+// records slot names and which slot is being played. Changed cells live
+// beside the memento, one key per chunk.
+export class SaveSlotManager {
+  private index: SlotIndex;
+
+  constructor(private storage: Storage = localStorage) {
+    this.index = this.loadIndex();
+  }
+
+  get activeId(): string {
+    return this.index.activeId;
+  }
+
+  readActive(): string | null {
+    return this.storage.getItem(this.saveKey(this.index.activeId));
+  }
+
+  writeActive(data: string): void {
+    this.storage.setItem(this.saveKey(this.index.activeId), data);
+  }
+
+  clearActive(): void {
+    this.storage.removeItem(this.saveKey(this.index.activeId));
+    this.removeChunks(this.index.activeId);
+  }
+
+  chunkStorage(id = this.index.activeId): ChunkStorage {
+    const prefix = this.chunkPrefix(id);
+    return {
+      read: (chunk) => {
+        const raw = this.storage.getItem(prefix + chunk);
+        return raw === null ? null : parseCellChunk(raw);
+      },
+      write: (chunk, cells) =>
+        this.storage.setItem(prefix + chunk, serializeCellChunk(cells)),
+      remove: (chunk) => this.storage.removeItem(prefix + chunk),
+      list: () =>
+        this.keysWithPrefix(prefix).map((key) => key.slice(prefix.length)),
+    };
+  }
+
+  list(): SlotSummary[] {
+    return this.index.slots.map((slot) => this.summarize(slot));
+  }
+
+  setActive(id: string): void {
+    if (!this.find(id)) throw new Error(`Unknown save slot ${id}.`);
+    this.index.activeId = id;
+    this.saveIndex();
+  }
+
+  create(name = this.nextName()): SaveSlot {
+    const slot = { id: newSlotId(), name };
+    this.index.slots.push(slot);
+    this.saveIndex();
+    return slot;
+  }
+
+  rename(id: string, name: string): void {
+    const slot = this.find(id);
+    if (!slot) throw new Error(`Unknown save slot ${id}.`);
+    slot.name = name;
+    this.saveIndex();
+  }
+
+  duplicate(id: string): SaveSlot {
+    const source = this.find(id);
+    if (!source) throw new Error(`Unknown save slot ${id}.`);
+
+    const copy = this.create(`${source.name} (copy)`);
+    const data = this.storage.getItem(this.saveKey(id));
+    if (data !== null) this.storage.setItem(this.saveKey(copy.id), data);
+
+    const prefix = this.chunkPrefix(id);
+    for (const key of this.keysWithPrefix(prefix)) {
+      this.storage.setItem(
+        this.chunkPrefix(copy.id) + key.slice(prefix.length),
+        this.storage.getItem(key)!,
+      );
+    }
+    return copy;
+  }
+
+  // deleting the active slot activates another one (or a fresh slot)
+  delete(id: string): void {
+    this.storage.removeItem(this.saveKey(id));
+    this.removeChunks(id);
+    this.index.slots = this.index.slots.filter((slot) => slot.id !== id);
+
+    if (this.index.slots.length === 0) this.create();
+    if (this.index.activeId === id) {
+      this.index.activeId = this.index.slots[0].id;
+    }
+    this.saveIndex();
+  }
+
+  // ---- internals ----
+
+  private find(id: string): SaveSlot | undefined {
+    return this.index.slots.find((slot) => slot.id === id);
+  }
+
+  private saveKey(id: string): string {
+    return `${SLOT_SAVE_PREFIX}${id}`;
+  }
+
+  private chunkPrefix(id: string): string {
+    return `${SLOT_CHUNK_PREFIX}${id}:`;
+  }
+
+  private keysWithPrefix(prefix: string): string[] {
+    const keys: string[] = [];
+    for (let k = 0; k < this.storage.length; k++) {
+      const key = this.storage.key(k);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  }
+
+  private removeChunks(id: string): void {
+    this.keysWithPrefix(this.chunkPrefix(id)).forEach((key) =>
+      this.storage.removeItem(key)
+    );
+  }
+
+  private nextName(): string {
+    const names = new Set(this.index.slots.map((slot) => slot.name));
+    let n = this.index.slots.length + 1;
+    while (names.has(`Dream ${n}`)) n++;
+    return `Dream ${n}`;
+  }
+
+  private summarize(slot: SaveSlot): SlotSummary {
+    const raw = this.storage.getItem(this.saveKey(slot.id));
+    const result = raw ? parseSave(raw) : null;
+
+    if (!result || result.status === "discarded") {
+      return {
+        ...slot,
+        lastPlayed: null,
+        player: null,
+        highestSpirit: 0,
+        seed: "",
+      };
+    }
+
+    const { save } = result;
+    const chunks = this.chunkStorage(slot.id);
+    const cells = [
+      ...save.cellMemory,
+      ...chunks.list().flatMap((chunk) => chunks.read(chunk) ?? []),
+    ];
+    // reduce rather than spread: large worlds exceed the argument limit
+    const highestCell = cells.reduce(
+      (highest, [, memento]) => Math.max(highest, memento.value),
+      0,
+    );
+    return {
+      ...slot,
+      lastPlayed: save.savedAt,
+      player: save.player,
+      highestSpirit: Math.max(
+        0,
+        ...save.inventory.map((spirit) => spirit?.value ?? 0),
+        highestCell,
+      ),
+      seed: save.config.seed,
+    };
+  }
+
+  private saveIndex(): void {
+    this.storage.setItem(SLOT_INDEX_KEY, JSON.stringify(this.index));
+  }
+
+  private loadIndex(): SlotIndex {
+    const raw = this.storage.getItem(SLOT_INDEX_KEY);
+    if (raw) {
+      try {
+        const index = JSON.parse(raw) as SlotIndex;
+        if (
+          Array.isArray(index.slots) && index.slots.length > 0 &&
+          index.slots.some((slot) => slot.id === index.activeId)
+        ) {
+          return index;
+        }
+      } catch {
+        // fall through and rebuild the index
+      }
+    }
+
+    return this.rebuildIndex();
+  }
+
+  // recovers slots from stored saves and adopts any pre-slot save
+  private rebuildIndex(): SlotIndex {
+    const slots: SaveSlot[] = [];
+    for (let k = 0; k < this.storage.length; k++) {
+      const key = this.storage.key(k);
+      if (key?.startsWith(SLOT_SAVE_PREFIX)) {
+        const id = key.slice(SLOT_SAVE_PREFIX.length);
+        slots.push({ id, name: `Dream ${slots.length + 1}` });
+      }
+    }
+
+    const legacyKey = LEGACY_SAVE_KEYS.find((key) =>
+      this.storage.getItem(key) !== null
+    );
+    if (legacyKey || slots.length === 0) {
+      const slot = { id: newSlotId(), name: `Dream ${slots.length + 1}` };
+      if (legacyKey) {
+        this.storage.setItem(
+          this.saveKey(slot.id),
+          this.storage.getItem(legacyKey)!,
+        );
+      }
+      slots.push(slot);
+    }
+    LEGACY_SAVE_KEYS.forEach((key) => this.storage.removeItem(key));
+
+    this.index = { activeId: slots[slots.length - 1].id, slots };
+    this.saveIndex();
+    return this.index;
+  }
+}
+
+function newSlotId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
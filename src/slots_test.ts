@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { DEFAULT_CONFIG } from "./config.ts";
+import { createEmptyExploration } from "./exploration.ts";
+import { serializeSave } from "./save.ts";
+import { SaveSlotManager } from "./slots.ts";
+import { createEngine } from "./_testing.ts";
+
+// localStorage stand-in
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+function saveData(savedAt: number): string {
+  return serializeSave({
+    savedAt,
+    player: { lat: 1, lng: 2 },
+    inventory: [{ kind: "ember", value: 4 }],
+    selectedSlot: 0,
+    cellMemory: [["1,0", { value: 2, kind: "ember" }]],
+    movementMode: "button",
+    history: { undo: [], redo: [] },
+    config: DEFAULT_CONFIG,
+    geoAnchor: null,
+    exploration: createEmptyExploration(),
+    runTimeMs: 0,
+    quests: null,
+  });
+}
+
+Deno.test("a fresh store starts with one active slot", () => {
+  const slots = new SaveSlotManager(new MemoryStorage());
+
+  assert.deepEqual(slots.list().map(({ id, name }) => ({ id, name })), [
+    { id: slots.activeId, name: "Dream 1" },
+  ]);
+  assert.equal(slots.readActive(), null);
+});
+
+Deno.test("slots can be created, renamed, duplicated and deleted", () => {
+  const storage = new MemoryStorage();
+  const slots = new SaveSlotManager(storage);
+  const first = slots.activeId;
+  slots.writeActive(saveData(100));
+  slots.chunkStorage().write("0,0", [["1,0", { value: 8, kind: "ember" }]]);
+
+  const second = slots.create();
+  assert.equal(second.name, "Dream 2");
+  slots.rename(first, "Home");
+  assert.throws(() => slots.rename("missing", "x"), /Unknown save slot/);
+
+  // a copy carries the save and its cell chunks
+  const copy = slots.duplicate(first);
+  assert.equal(copy.name, "Home (copy)");
+  assert.deepEqual(slots.chunkStorage(copy.id).read("0,0"), [
+    ["1,0", { value: 8, kind: "ember" }],
+  ]);
+  const summary = slots.list().find((slot) => slot.id === copy.id);
+  assert.equal(summary?.lastPlayed, 100);
+  assert.deepEqual(summary?.player, { lat: 1, lng: 2 });
+  assert.equal(summary?.highestSpirit, 8);
+
+  // deleting a slot removes its save and chunks, the rest stays
+  slots.delete(copy.id);
+  assert.deepEqual(slots.list().map((slot) => slot.name), ["Home", "Dream 2"]);
+  assert.equal(slots.chunkStorage(copy.id).list().length, 0);
+  assert.equal(slots.activeId, first);
+
+  // the index survives a reload
+  const reloaded = new SaveSlotManager(storage);
+  assert.deepEqual(reloaded.list().map((slot) => slot.name), [
+    "Home",
+    "Dream 2",
+  ]);
+  assert.equal(reloaded.activeId, first);
+});
+
+Deno.test("switching the active slot switches the save and cells in play", () => {
+  const slots = new SaveSlotManager(new MemoryStorage());
+  const first = slots.activeId;
+  slots.writeActive(saveData(100));
+  const second = slots.create();
+
+  slots.setActive(second.id);
+  assert.equal(slots.activeId, second.id);
+  assert.equal(slots.readActive(), null);
+  slots.writeActive(saveData(200));
+
+  // an engine playing a slot writes its cells to that slot only
+  const engine = createEngine();
+  engine.cellMemory.attach(slots.chunkStorage());
+  engine.cellMemory.set("1,0", { value: 4, kind: "ember" });
+  engine.cellMemory.flush();
+  assert.deepEqual(slots.chunkStorage(second.id).read("0,0"), [
+    ["1,0", { value: 4, kind: "ember" }],
+  ]);
+  assert.equal(slots.chunkStorage(first).list().length, 0);
+
+  slots.setActive(first);
+  assert.equal(slots.readActive(), saveData(100));
+  assert.throws(() => slots.setActive("missing"), /Unknown save slot/);
+
+  // deleting the active slot activates another one
+  slots.delete(first);
+  assert.equal(slots.activeId, second.id);
+  slots.delete(second.id);
+  assert.equal(slots.list().length, 1);
+  assert.notEqual(slots.activeId, second.id);
+});
@@ -0,0 +1,251 @@
+// Service worker: keeps the app shell and the map around visited areas
+// available offline. Built as its own entry (sw.js) by vite.config.js and
+// registered as a classic script, so it may only import tileCache.ts.
+
+import {
+  MAX_CACHED_TILES,
+  PLACEHOLDER_TILE_SVG,
+  SHELL_CACHE,
+  TILE_CACHE,
+  TILE_HOST,
+  TileLru,
+  tilesAround,
+  type WorkerReply,
+  type WorkerRequest,
+} from "./tileCache.ts";
+
+// ---- Worker types -----------------------------------------------
+
+// the few service worker APIs used here (the "webworker" lib clashes with
+// "dom" in a single type-check)
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  readonly data: WorkerRequest;
+  readonly source: { postMessage(message: WorkerReply): void } | null;
+}
+
+interface ServiceWorkerScope {
+  readonly registration: { readonly scope: string };
+  readonly clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(
+    type: "install" | "activate",
+    listener: (event: ExtendableEvent) => void,
+  ): void;
+  addEventListener(
+    type: "fetch",
+    listener: (event: FetchEvent) => void,
+  ): void;
+  addEventListener(
+    type: "message",
+    listener: (event: ExtendableMessageEvent) => void,
+  ): void;
+}
+
+const sw = globalThis as unknown as ServiceWorkerScope;
+
+// ---- Constants --------------------------------------------------
+
+// the start page plus what the install prompt needs (see public/)
+const SHELL_FILES = [
+  "./",
+  "manifest.webmanifest",
+  "icons/icon-192.png",
+  "icons/icon-512.png",
+];
+
+// where the LRU index is kept between worker restarts
+const TILE_INDEX_URL = new URL("__tile-index", sw.registration.scope).href;
+const INDEX_SAVE_DELAY = 2000;
+
+// ---- Lifecycle --------------------------------------------------
+
+sw.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) =>
+        cache.addAll(
+          SHELL_FILES.map((file) => new URL(file, sw.registration.scope).href),
+        )
+      )
+      .then(() => sw.skipWaiting()),
+  );
+});
+
+sw.addEventListener("activate", (event) => {
+  event.waitUntil(sw.clients.claim());
+});
+
+sw.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.hostname === TILE_HOST) {
+    event.respondWith(serveTile(request));
+  } else if (url.origin === location.origin) {
+    event.respondWith(serveShell(request));
+  }
+});
+
+sw.addEventListener("message", (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case "cacheShell":
+      event.waitUntil(cacheShell(message.urls));
+      break;
+    case "predownload":
+      event.waitUntil(
+        predownload(tilesAround(message.center), (reply) => {
+          event.source?.postMessage(reply);
+        }),
+      );
+      break;
+  }
+});
+
+// ---- App shell --------------------------------------------------
+
+// network first so deploys show up at once; the cache covers offline starts
+async function serveShell(request: Request): Promise<Response> {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request, { ignoreSearch: true }) ??
+      (request.mode === "navigate"
+        ? await cache.match(sw.registration.scope)
+        : undefined);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// the page reports the assets it loaded before this worker took over
+async function cacheShell(urls: string[]): Promise<void> {
+  const cache = await caches.open(SHELL_CACHE);
+  await Promise.allSettled(
+    urls
+      .filter((url) => new URL(url).origin === location.origin)
+      .map((url) => cache.add(url)),
+  );
+}
+
+// ---- Map tiles --------------------------------------------------
+
+let lru: Promise<TileLru> | null = null;
+let indexSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function loadIndex(): Promise<TileLru> {
+  lru ??= caches.open(TILE_CACHE)
+    .then((cache) => cache.match(TILE_INDEX_URL))
+    .then((response) => response?.json() ?? [])
+    .catch(() => [])
+    .then((entries) => new TileLru(Array.isArray(entries) ? entries : []));
+  return lru;
+}
+
+function scheduleIndexSave(index: TileLru): void {
+  if (indexSaveTimer !== null) return;
+  indexSaveTimer = setTimeout(async () => {
+    indexSaveTimer = null;
+    const cache = await caches.open(TILE_CACHE);
+    await cache.put(TILE_INDEX_URL, Response.json(index));
+  }, INDEX_SAVE_DELAY);
+}
+
+// marks a tile as used and evicts the least recently used ones over the cap
+async function touchTile(cache: Cache, url: string): Promise<void> {
+  const index = await loadIndex();
+  index.touch(url);
+  await Promise.all(
+    index.evict(MAX_CACHED_TILES).map((old) => cache.delete(old)),
+  );
+  scheduleIndexSave(index);
+}
+
+// the OSM servers allow CORS; opaque responses would hide errors and count
+// megabytes each against the storage quota
+function fetchTile(url: string): Promise<Response> {
+  return fetch(url, { mode: "cors" });
+}
+
+// keeps good tiles only; true when the tile was cached. A full quota costs
+// the copy, never the tile the page asked for
+async function storeTile(
+  cache: Cache,
+  url: string,
+  response: Response,
+): Promise<boolean> {
+  if (!response.ok) return false;
+  try {
+    await cache.put(url, response.clone());
+    await touchTile(cache, url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// cache first: tiles hardly change, and offline play needs them
+async function serveTile(request: Request): Promise<Response> {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) {
+    await touchTile(cache, request.url);
+    return cached;
+  }
+
+  let response: Response;
+  try {
+    response = await fetchTile(request.url);
+  } catch {
+    // only a failed fetch means offline
+    return placeholderTile();
+  }
+  await storeTile(cache, request.url, response);
+  return response;
+}
+
+function placeholderTile(): Response {
+  return new Response(PLACEHOLDER_TILE_SVG, {
+    headers: { "Content-Type": "image/svg+xml" },
+  });
+}
+
+// one tile at a time to go easy on the tile servers
+async function predownload(
+  urls: string[],
+  report: (reply: WorkerReply) => void,
+): Promise<void> {
+  const cache = await caches.open(TILE_CACHE);
+  let cached = 0;
+  let failed = 0;
+
+  for (const [done, url] of urls.entries()) {
+    if (await cache.match(url)) {
+      await touchTile(cache, url);
+      cached++;
+    } else {
+      try {
+        if (await storeTile(cache, url, await fetchTile(url))) cached++;
+        else failed++;
+      } catch {
+        failed++;
+      }
+    }
+    report({ type: "predownloadProgress", done: done + 1, total: urls.length });
+  }
+
+  report({ type: "predownloadDone", cached, failed });
+}
@@ -0,0 +1,427 @@
+import type { CellMemento, LatLng, WorldRules } from "./world.ts";
+import { isCellKey, isCellMemento, isLatLng } from "./save.ts";
+
+// --- Constants ---------------------------------------------------
+
+// where the reference server (src/syncServer.ts) listens by default
+export const DEFAULT_SYNC_PORT = 8787;
+export const DEFAULT_SYNC_URL = `ws://localhost:${DEFAULT_SYNC_PORT}`;
+
+// --- Messages ----------------------------------------------------
+
+// a cell as last written; a null memento means back to its procedural self
+export interface SyncedCell {
+  key: string;
+  memento: CellMemento | null;
+  // counts the writes to this cell
+  version: number;
+  author: string;
+}
+
+export type ClientMessage =
+  | { type: "join"; world: string; player: string; pos: LatLng }
+  | { type: "cells"; cells: SyncedCell[] }
+  | { type: "move"; pos: LatLng };
+
+export type ServerMessage =
+  | { type: "welcome"; cells: SyncedCell[]; players: [string, LatLng][] }
+  | { type: "cells"; cells: SyncedCell[] }
+  | { type: "moved"; player: string; pos: LatLng }
+  | { type: "left"; player: string };
+
+// --- Conflict rule -----------------------------------------------
+
+// versioned last-writer-wins: the higher version wins, and concurrent writes
+// of the same version go to the higher author id so every peer agrees
+export function supersedes(
+  incoming: SyncedCell,
+  current: SyncedCell | undefined,
+): boolean {
+  if (!current) return true;
+  if (incoming.version !== current.version) {
+    return incoming.version > current.version;
+  }
+  return incoming.author > current.author;
+}
+
+// players only share a world when every rule shaping the grid matches
+export function worldId(rules: WorldRules): string {
+  return JSON.stringify([
+    rules.seed,
+    rules.cellSizeDeg,
+    rules.spawnTable,
+    rules.respawnCooldownMs,
+  ]);
+}
+
+// --- Validation --------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSyncedCell(value: unknown): value is SyncedCell {
+  return (
+    isObject(value) &&
+    isCellKey(value.key) &&
+    (value.memento === null || isCellMemento(value.memento)) &&
+    Number.isInteger(value.version) && (value.version as number) > 0 &&
+    typeof value.author === "string"
+  );
+}
+
+function isCellList(value: unknown): value is SyncedCell[] {
+  return Array.isArray(value) && value.every(isSyncedCell);
+}
+
+function parseJson(raw: string): Record<string, unknown> | null {
+  try {
+    const data: unknown = JSON.parse(raw);
+    return isObject(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+// null for anything that isn't a well-formed message
+export function parseClientMessage(raw: string): ClientMessage | null {
+  const data = parseJson(raw);
+  switch (data?.type) {
+    case "join":
+      return typeof data.world === "string" &&
+          typeof data.player === "string" && isLatLng(data.pos)
+        ? {
+          type: "join",
+          world: data.world,
+          player: data.player,
+          pos: data.pos,
+        }
+        : null;
+    case "cells":
+      return isCellList(data.cells)
+        ? { type: "cells", cells: data.cells }
+        : null;
+    case "move":
+      return isLatLng(data.pos) ? { type: "move", pos: data.pos } : null;
+    default:
+      return null;
+  }
+}
+
+export function parseServerMessage(raw: string): ServerMessage | null {
+  const data = parseJson(raw);
+  switch (data?.type) {
+    case "welcome":
+      return isCellList(data.cells) && Array.isArray(data.players) &&
+          data.players.every((entry) =>
+            Array.isArray(entry) && typeof entry[0] === "string" &&
+            isLatLng(entry[1])
+          )
+        ? { type: "welcome", cells: data.cells, players: data.players }
+        : null;
+    case "cells":
+      return isCellList(data.cells)
+        ? { type: "cells", cells: data.cells }
+        : null;
+    case "moved":
+      return typeof data.player === "string" && isLatLng(data.pos)
+        ? { type: "moved", player: data.player, pos: data.pos }
+        : null;
+    case "left":
+      return typeof data.player === "string"
+        ? { type: "left", player: data.player }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// --- Transports --------------------------------------------------
+
+// STRATEGY PATTERN
+// How a client reaches the shared world. Messages sent before the
+// connection is up are queued.
+export interface SyncTransport {
+  open(onMessage: (message: ServerMessage) => void, onClose: () => void): void;
+  send(message: ClientMessage): void;
+  close(): void;
+}
+
+export class WebSocketTransport implements SyncTransport {
+  private socket: WebSocket | null = null;
+  private queue: ClientMessage[] = [];
+
+  constructor(private readonly url: string) {}
+
+  open(
+    onMessage: (message: ServerMessage) => void,
+    onClose: () => void,
+  ): void {
+    const socket = new WebSocket(this.url);
+    socket.addEventListener("open", () => {
+      this.queue.forEach((message) => socket.send(JSON.stringify(message)));
+      this.queue = [];
+    });
+    socket.addEventListener("message", (event) => {
+      const message = parseServerMessage(String(event.data));
+      if (message) onMessage(message);
+    });
+    socket.addEventListener("close", () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.queue = [];
+      onClose();
+    });
+    this.socket = socket;
+  }
+
+  send(message: ClientMessage): void {
+    const socket = this.socket;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    } else if (socket?.readyState === WebSocket.CONNECTING) {
+      this.queue.push(message);
+    }
+  }
+
+  // closing on purpose does not report a lost connection
+  close(): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.queue = [];
+    socket?.close();
+  }
+}
+
+// talks to an in-process server; for tests and offline play
+export class LocalTransport implements SyncTransport {
+  private connection: SyncConnection | null = null;
+
+  constructor(private readonly server: SyncServer) {}
+
+  open(
+    onMessage: (message: ServerMessage) => void,
+    _onClose: () => void,
+  ): void {
+    // round-trip through JSON like a real socket, so nothing is shared
+    this.connection = this.server.connect((message) =>
+      onMessage(parseServerMessage(JSON.stringify(message))!)
+    );
+  }
+
+  send(message: ClientMessage): void {
+    this.connection?.receive(parseClientMessage(JSON.stringify(message))!);
+  }
+
+  close(): void {
+    this.connection?.close();
+    this.connection = null;
+  }
+}
+
+// --- Client ------------------------------------------------------
+
+export interface SyncHandlers {
+  // remote writes that won; null mementos return cells to procedural
+  applyCells(cells: [string, CellMemento | null][]): void;
+  // every changed cell this player shares, for the handshake on joining
+  localCells(): [string, CellMemento][];
+  onPlayers(players: ReadonlyMap<string, LatLng>): void;
+  onDisconnect(): void;
+}
+
+// Shares this player's cell changes and position with everyone in the same
+// world, and applies theirs. On joining, the world's cells win and local
+// changes it has never seen are sent along.
+export class SyncClient {
+  private known = new Map<string, SyncedCell>();
+  private players = new Map<string, LatLng>();
+  private joined = false;
+
+  constructor(
+    private readonly transport: SyncTransport,
+    readonly player: string,
+    private readonly handlers: SyncHandlers,
+  ) {}
+
+  get isJoined(): boolean {
+    return this.joined;
+  }
+
+  join(world: string, pos: LatLng): void {
+    this.leave();
+    this.joined = true;
+    this.transport.open(
+      (message) => this.receive(message),
+      () => {
+        this.reset();
+        this.handlers.onDisconnect();
+      },
+    );
+    this.transport.send({ type: "join", world, player: this.player, pos });
+  }
+
+  leave(): void {
+    if (!this.joined) return;
+    this.transport.close();
+    this.reset();
+  }
+
+  // local writes; each one bumps the cell's version
+  publish(cells: [string, CellMemento | null][]): void {
+    if (!this.joined || cells.length === 0) return;
+    const synced = cells.map(([key, memento]) => {
+      const cell: SyncedCell = {
+        key,
+        memento,
+        version: (this.known.get(key)?.version ?? 0) + 1,
+        author: this.player,
+      };
+      this.known.set(key, cell);
+      return cell;
+    });
+    this.transport.send({ type: "cells", cells: synced });
+  }
+
+  moveTo(pos: LatLng): void {
+    if (this.joined) this.transport.send({ type: "move", pos });
+  }
+
+  private receive(message: ServerMessage): void {
+    switch (message.type) {
+      case "welcome":
+        this.players = new Map(message.players);
+        this.players.delete(this.player);
+        this.merge(message.cells);
+        this.publish(
+          this.handlers.localCells().filter(([key]) => !this.known.has(key)),
+        );
+        this.handlers.onPlayers(this.players);
+        break;
+      case "cells":
+        this.merge(message.cells);
+        break;
+      case "moved":
+        if (message.player === this.player) break;
+        this.players.set(message.player, message.pos);
+        this.handlers.onPlayers(this.players);
+        break;
+      case "left":
+        this.players.delete(message.player);
+        this.handlers.onPlayers(this.players);
+        break;
+    }
+  }
+
+  private merge(cells: SyncedCell[]): void {
+    const winners = cells.filter((cell) =>
+      supersedes(cell, this.known.get(cell.key))
+    );
+    winners.forEach((cell) => this.known.set(cell.key, cell));
+    if (winners.length > 0) {
+      this.handlers.applyCells(winners.map((cell) => [cell.key, cell.memento]));
+    }
+  }
+
+  private reset(): void {
+    this.joined = false;
+    this.known.clear();
+    this.players.clear();
+    this.handlers.onPlayers(this.players);
+  }
+}
+
+// --- Server ------------------------------------------------------
+
+export interface SyncConnection {
+  receive(message: ClientMessage): void;
+  close(): void;
+}
+
+interface Peer {
+  player: string;
+  pos: LatLng;
+  send(message: ServerMessage): void;
+}
+
+// one shared world: its cells (kept while nobody is connected) and players
+class SyncRoom {
+  private cells = new Map<string, SyncedCell>();
+  private peers = new Set<Peer>();
+
+  join(peer: Peer): void {
+    peer.send({
+      type: "welcome",
+      cells: Array.from(this.cells.values()),
+      players: Array.from(this.peers, ({ player, pos }) => [player, pos]),
+    });
+    this.peers.add(peer);
+    this.broadcast(peer, { type: "moved", player: peer.player, pos: peer.pos });
+  }
+
+  // accepted writes go to everyone else; a rejected writer gets the winner
+  write(peer: Peer, cells: SyncedCell[]): void {
+    const accepted: SyncedCell[] = [];
+    const rejected: SyncedCell[] = [];
+    for (const cell of cells) {
+      const current = this.cells.get(cell.key);
+      if (supersedes(cell, current)) {
+        this.cells.set(cell.key, cell);
+        accepted.push(cell);
+      } else {
+        rejected.push(current!);
+      }
+    }
+    if (accepted.length > 0) {
+      this.broadcast(peer, { type: "cells", cells: accepted });
+    }
+    if (rejected.length > 0) peer.send({ type: "cells", cells: rejected });
+  }
+
+  move(peer: Peer, pos: LatLng): void {
+    peer.pos = pos;
+    this.broadcast(peer, { type: "moved", player: peer.player, pos });
+  }
+
+  leave(peer: Peer): void {
+    if (!this.peers.delete(peer)) return;
+    this.broadcast(peer, { type: "left", player: peer.player });
+  }
+
+  private broadcast(from: Peer, message: ServerMessage): void {
+    this.peers.forEach((peer) => {
+      if (peer !== from) peer.send(message);
+    });
+  }
+}
+
+// The reference backend, independent of any socket API: every connection
+// joins one world room by its id.
+export class SyncServer {
+  private rooms = new Map<string, SyncRoom>();
+
+  connect(send: (message: ServerMessage) => void): SyncConnection {
+    let room: SyncRoom | null = null;
+    let peer: Peer | null = null;
+
+    return {
+      receive: (message) => {
+        if (message.type === "join") {
+          if (room && peer) room.leave(peer);
+          room = this.rooms.get(message.world) ?? new SyncRoom();
+          this.rooms.set(message.world, room);
+          peer = { player: message.player, pos: message.pos, send };
+          room.join(peer);
+        } else if (room && peer) {
+          if (message.type === "cells") room.write(peer, message.cells);
+          else room.move(peer, message.pos);
+        }
+      },
+      close: () => {
+        if (room && peer) room.leave(peer);
+        room = null;
+        peer = null;
+      },
+    };
+  }
+}
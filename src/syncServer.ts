@@ -0,0 +1,29 @@
+// Reference multiplayer backend: a small WebSocket server that keeps shared
+// worlds in memory. Run with `deno task sync-server [port]`.
+
+import { DEFAULT_SYNC_PORT, parseClientMessage, SyncServer } from "./sync.ts";
+
+const port = Number(Deno.args[0]) || DEFAULT_SYNC_PORT;
+const server = new SyncServer();
+
+Deno.serve({ port }, (request) => {
+  if (request.headers.get("upgrade") !== "websocket") {
+    return new Response("Dreamlink sync server: connect with a WebSocket.", {
+      status: 426,
+    });
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(request);
+  const connection = server.connect((message) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  });
+
+  socket.addEventListener("message", (event) => {
+    const message = parseClientMessage(String(event.data));
+    if (message) connection.receive(message);
+  });
+  socket.addEventListener("close", () => connection.close());
+  return response;
+});
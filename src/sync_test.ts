@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import {
+  LocalTransport,
+  supersedes,
+  SyncClient,
+  SyncServer,
+  worldId,
+} from "./sync.ts";
+import type { GameEngine } from "./engine.ts";
+import { createEngine, ember } from "./_testing.ts";
+
+Deno.test("players in the same world share cell changes and positions", () => {
+  const server = new SyncServer();
+  const join = (player: string) => {
+    const engine = createEngine([["1,0", 2]]);
+    const seen = { players: 0 };
+    const client = new SyncClient(new LocalTransport(server), player, {
+      applyCells: (cells) => engine.applyRemoteCells(cells),
+      localCells: () => [],
+      onPlayers: (players) => (seen.players = players.size),
+      onDisconnect: () => {},
+    });
+    engine.subscribe((event) => {
+      if (event.type === "picked") {
+        client.publish([["1,0", engine.cellMemory.get("1,0")!]]);
+      }
+    });
+    client.join(worldId(engine.config), engine.playerPos);
+    return { engine, client, seen };
+  };
+
+  const alice = join("alice");
+  const bob = join("bob");
+  assert.equal(alice.seen.players, 1);
+
+  alice.engine.interact(1, 0);
+  assert.equal(bob.engine.getSpiritAt(1, 0), 0);
+
+  // a late joiner gets the world as it is now
+  const carol = join("carol");
+  assert.equal(carol.engine.getSpiritAt(1, 0), 0);
+
+  bob.client.leave();
+  assert.equal(alice.seen.players, 1);
+});
+
+Deno.test("concurrent cell writes resolve the same way everywhere", () => {
+  const write = (version: number, author: string) => ({
+    key: "1,0",
+    memento: { value: version },
+    version,
+    author,
+  });
+
+  assert.ok(supersedes(write(2, "a"), write(1, "z")));
+  assert.ok(!supersedes(write(1, "z"), write(2, "a")));
+  assert.ok(supersedes(write(1, "b"), write(1, "a")));
+  assert.ok(!supersedes(write(1, "a"), write(1, "b")));
+  assert.ok(!supersedes(write(1, "a"), write(1, "a")));
+});
+
+Deno.test("joining sends local changes the world has never seen", () => {
+  const server = new SyncServer();
+  const join = (engine: GameEngine, player: string) => {
+    const client = new SyncClient(new LocalTransport(server), player, {
+      applyCells: (cells) => engine.applyRemoteCells(cells),
+      localCells: () =>
+        engine.cellMemory.entries().filter(([, memento]) => !memento.personal),
+      onPlayers: () => {},
+      onDisconnect: () => {},
+    });
+    client.join(worldId(engine.config), engine.playerPos);
+    return client;
+  };
+
+  const bob = createEngine();
+  join(bob, "bob").publish([["2,0", { value: 8, kind: "ember" }]]);
+
+  // alice played offline: got a reward, picked up at 1,0, dropped at 2,0
+  const alice = createEngine([["1,0", 2], ["2,0", 0]]);
+  assert.ok(alice.grantSpirit({ kind: "tide", value: 16 }));
+  alice.interact(1, 0);
+  alice.interact(2, 0);
+
+  join(alice, "alice");
+
+  // the world's cell wins; the one it never saw is sent along
+  assert.equal(alice.getSpiritAt(2, 0), 8);
+  assert.equal(alice.getSpiritAt(1, 0), 0);
+  assert.deepEqual(bob.cellMemory.get("1,0"), alice.cellMemory.get("1,0"));
+  // quest rewards stay personal
+  const reward = alice.cellMemory.entries().find(([, memento]) =>
+    memento.personal
+  );
+  assert.ok(reward);
+  assert.equal(bob.cellMemory.get(reward[0]), undefined);
+});
+
+Deno.test("a remote write takes the cell out of the undo history", () => {
+  const server = new SyncServer();
+  const join = (engine: GameEngine, player: string) => {
+    const client = new SyncClient(new LocalTransport(server), player, {
+      applyCells: (cells) => engine.applyRemoteCells(cells),
+      localCells: () => [],
+      onPlayers: () => {},
+      onDisconnect: () => {},
+    });
+    client.join(worldId(engine.config), engine.playerPos);
+    // interacts and shares the cell, as the game does
+    return (i: number, j: number) => {
+      engine.interact(i, j);
+      client.publish([[`${i},${j}`, engine.cellMemory.get(`${i},${j}`)!]]);
+    };
+  };
+
+  // alice carries a spirit from 1,0 to 2,0; bob picks it up there
+  const alice = createEngine([["1,0", 2], ["2,0", 0]]);
+  const bob = createEngine();
+  const aliceActs = join(alice, "alice");
+  const bobActs = join(bob, "bob");
+  aliceActs(1, 0);
+  aliceActs(2, 0);
+  bobActs(2, 0);
+
+  // undoing the drop would hand alice a second copy of bob's spirit
+  assert.equal(alice.canUndo, false);
+  assert.equal(alice.undo(), null);
+  assert.deepEqual(alice.snapshot().inventory, [null, null, null, null]);
+  assert.deepEqual(bob.snapshot().inventory[0], ember(2));
+  assert.equal(alice.getSpiritAt(2, 0), 0);
+});
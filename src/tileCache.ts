@@ -0,0 +1,129 @@
+import type { LatLng } from "./world.ts";
+
+// Shared by the page and the service worker. Only type imports here: any
+// runtime import would become a chunk that a classic worker can't load.
+
+// --- Constants ---------------------------------------------------
+
+export const SHELL_CACHE = "dreamlink-shell";
+export const TILE_CACHE = "dreamlink-tiles";
+export const TILE_HOST = "tile.openstreetmap.org";
+
+// the Cache API can't cheaply tell how big a tile is, so the cap counts
+// tiles (~25 KB each) instead of bytes
+export const MAX_CACHED_TILES = 2000;
+
+// "save this neighborhood" stays small to respect the OSM tile usage policy
+export const PREDOWNLOAD_RADIUS_M = 250;
+export const PREDOWNLOAD_ZOOMS = [15, 16, 17, 18, 19];
+export const PREDOWNLOAD_MAX_TILES = 200;
+
+const METERS_PER_DEGREE = 111_320;
+
+// --- Messages ----------------------------------------------------
+
+// page -> service worker
+export type WorkerRequest =
+  | { type: "cacheShell"; urls: string[] }
+  | { type: "predownload"; center: LatLng };
+
+// service worker -> page
+export type WorkerReply =
+  | { type: "predownloadProgress"; done: number; total: number }
+  | { type: "predownloadDone"; cached: number; failed: number };
+
+// --- Tile math ---------------------------------------------------
+
+export interface TileCoords {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// standard Web Mercator ("slippy map") tile numbering
+export function tileForLatLng(lat: number, lng: number, z: number): TileCoords {
+  const n = 2 ** z;
+  const latRad = lat * Math.PI / 180;
+  const x = Math.floor((lng + 180) / 360 * n);
+  const y = Math.floor(
+    (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n,
+  );
+  return {
+    x: Math.min(n - 1, Math.max(0, x)),
+    y: Math.min(n - 1, Math.max(0, y)),
+    z,
+  };
+}
+
+export function tileUrl({ x, y, z }: TileCoords): string {
+  return `https://${TILE_HOST}/${z}/${x}/${y}.png`;
+}
+
+// every tile touching the square around center, coarse zooms first
+export function tilesAround(
+  center: LatLng,
+  radiusMeters: number = PREDOWNLOAD_RADIUS_M,
+  zooms: number[] = PREDOWNLOAD_ZOOMS,
+): string[] {
+  const dLat = radiusMeters / METERS_PER_DEGREE;
+  const dLng = dLat / Math.cos(center.lat * Math.PI / 180);
+
+  const urls: string[] = [];
+  for (const z of zooms) {
+    const min = tileForLatLng(center.lat + dLat, center.lng - dLng, z);
+    const max = tileForLatLng(center.lat - dLat, center.lng + dLng, z);
+    for (let x = min.x; x <= max.x; x++) {
+      for (let y = min.y; y <= max.y; y++) urls.push(tileUrl({ x, y, z }));
+    }
+  }
+  return urls.slice(0, PREDOWNLOAD_MAX_TILES);
+}
+
+// --- LRU index ---------------------------------------------------
+
+// Last use of every cached tile. Map order is recency order, so the oldest
+// entries come first when evicting.
+export class TileLru {
+  private used = new Map<string, number>();
+
+  constructor(entries: [string, number][] = []) {
+    [...entries]
+      .sort(([, a], [, b]) => a - b)
+      .forEach(([url, time]) => this.used.set(url, time));
+  }
+
+  get size(): number {
+    return this.used.size;
+  }
+
+  touch(url: string, now = Date.now()): void {
+    this.used.delete(url);
+    this.used.set(url, now);
+  }
+
+  // removes and returns the least recently used tiles over the limit
+  evict(limit: number = MAX_CACHED_TILES): string[] {
+    const evicted: string[] = [];
+    for (const url of this.used.keys()) {
+      if (this.used.size - evicted.length <= limit) break;
+      evicted.push(url);
+    }
+    evicted.forEach((url) => this.used.delete(url));
+    return evicted;
+  }
+
+  toJSON(): [string, number][] {
+    return Array.from(this.used.entries());
+  }
+}
+
+// --- Placeholder -------------------------------------------------
+
+// shown for tiles that are neither cached nor reachable
+export const PLACEHOLDER_TILE_SVG =
+  `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256">` +
+  `<rect width="256" height="256" fill="#2b2238"/>` +
+  `<path d="M0 0H256V256" fill="none" stroke="#3d3150" stroke-width="2"/>` +
+  `<text x="128" y="132" fill="#8d7fa3" font-family="sans-serif" ` +
+  `font-size="14" text-anchor="middle">offline – map not saved</text>` +
+  `</svg>`;
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import {
+  PREDOWNLOAD_MAX_TILES,
+  tileForLatLng,
+  TileLru,
+  tilesAround,
+} from "./tileCache.ts";
+
+Deno.test("the tile cache evicts least recently used tiles over the cap", () => {
+  const lru = new TileLru([["b", 2], ["a", 1], ["c", 3]]);
+  lru.touch("a", 4);
+  assert.deepEqual(lru.evict(2), ["b"]);
+  assert.deepEqual(lru.evict(2), []);
+
+  // the index survives a round trip through JSON
+  const restored = new TileLru(JSON.parse(JSON.stringify(lru)));
+  assert.deepEqual(restored.evict(1), ["c"]);
+});
+
+Deno.test("pre-download covers the tiles around the player", () => {
+  assert.deepEqual(tileForLatLng(0, 0, 1), { x: 1, y: 1, z: 1 });
+  assert.deepEqual(tileForLatLng(51.5, -0.12, 10), { x: 511, y: 340, z: 10 });
+
+  const center = { lat: 36.997936, lng: -122.056811 };
+  const urls = tilesAround(center);
+  const { x, y } = tileForLatLng(center.lat, center.lng, 19);
+  assert.ok(urls.includes(`https://tile.openstreetmap.org/19/${x}/${y}.png`));
+  assert.ok(urls[0].includes("/15/"));
+  assert.equal(new Set(urls).size, urls.length);
+  assert.ok(urls.length <= PREDOWNLOAD_MAX_TILES);
+});
@@ -0,0 +1,170 @@
+import type { LatLng } from "./world.ts";
+
+// --- Constants ---------------------------------------------------
+
+// tracks without timestamps are replayed at walking pace
+export const WALKING_SPEED_MPS = 1.4;
+
+const METERS_PER_DEGREE = 111_320;
+
+// --- Types -------------------------------------------------------
+
+// time is in ms since the first point of the track
+export interface TrackPoint extends LatLng {
+  time: number;
+}
+
+export type Track = TrackPoint[];
+
+interface RawPoint extends LatLng {
+  time?: number;
+}
+
+// --- Geometry ----------------------------------------------------
+
+// equirectangular approximation; plenty for walking distances
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const north = (b.lat - a.lat) * METERS_PER_DEGREE;
+  const east = (b.lng - a.lng) * METERS_PER_DEGREE *
+    Math.cos(((a.lat + b.lat) / 2) * Math.PI / 180);
+  return Math.hypot(north, east);
+}
+
+export function offsetMeters(
+  pos: LatLng,
+  northMeters: number,
+  eastMeters: number,
+): LatLng {
+  return {
+    lat: pos.lat + northMeters / METERS_PER_DEGREE,
+    lng: pos.lng +
+      eastMeters / (METERS_PER_DEGREE * Math.cos(pos.lat * Math.PI / 180)),
+  };
+}
+
+// --- Parsing -----------------------------------------------------
+
+const GPX_POINT_PATTERN = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+
+function readAttribute(attributes: string, name: string): number {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`));
+  return match ? Number(match[1]) : NaN;
+}
+
+function parseGpx(text: string): RawPoint[] {
+  const points: RawPoint[] = [];
+  for (const [, , attributes, body = ""] of text.matchAll(GPX_POINT_PATTERN)) {
+    const lat = readAttribute(attributes, "lat");
+    const lng = readAttribute(attributes, "lon");
+    const time = Date.parse(body.match(/<time>([^<]*)<\/time>/)?.[1] ?? "");
+    points.push(Number.isNaN(time) ? { lat, lng } : { lat, lng, time });
+  }
+  return points;
+}
+
+// the first LineString (or MultiLineString) found in the document
+function findLineCoordinates(geo: unknown): unknown[] | null {
+  if (typeof geo !== "object" || geo === null) return null;
+  const object = geo as Record<string, unknown>;
+
+  switch (object.type) {
+    case "LineString":
+      return Array.isArray(object.coordinates) ? object.coordinates : null;
+    case "MultiLineString":
+      return Array.isArray(object.coordinates)
+        ? object.coordinates.flat()
+        : null;
+    case "Feature":
+      return findLineCoordinates(object.geometry);
+    case "FeatureCollection":
+      if (!Array.isArray(object.features)) return null;
+      for (const feature of object.features) {
+        const coordinates = findLineCoordinates(feature);
+        if (coordinates) return coordinates;
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+// GeoJSON positions are [lng, lat]; a fourth value may hold a timestamp
+function parseGeoJson(text: string): RawPoint[] {
+  const coordinates = findLineCoordinates(JSON.parse(text));
+  if (!coordinates) throw new Error("No LineString found in the GeoJSON.");
+
+  return coordinates.map((position) => {
+    const [lng, lat, , time] = Array.isArray(position) ? position : [];
+    const point = { lat: Number(lat), lng: Number(lng) };
+    return typeof time === "number" ? { ...point, time } : point;
+  });
+}
+
+// uses recorded times when every point has one, walking pace otherwise
+function timeTrack(points: RawPoint[]): Track {
+  if (points.every(({ time }) => time !== undefined)) {
+    const start = points[0].time!;
+    return points.map(({ lat, lng, time }) => ({
+      lat,
+      lng,
+      time: Math.max(0, time! - start),
+    }));
+  }
+
+  let time = 0;
+  return points.map((point, k) => {
+    if (k > 0) {
+      time += distanceMeters(points[k - 1], point) / WALKING_SPEED_MPS * 1000;
+    }
+    return { lat: point.lat, lng: point.lng, time };
+  });
+}
+
+// reads a GPX or GeoJSON document; throws when it holds no usable track
+export function parseTrack(text: string): Track {
+  let points: RawPoint[];
+  try {
+    points = text.trimStart().startsWith("<")
+      ? parseGpx(text)
+      : parseGeoJson(text);
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      throw new Error("Track is neither GPX nor GeoJSON.");
+    }
+    throw err;
+  }
+
+  const valid = points.filter(({ lat, lng }) =>
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+  );
+  if (valid.length < 2) throw new Error("Track needs at least two points.");
+
+  return timeTrack(valid);
+}
+
+// --- Playback ----------------------------------------------------
+
+export function trackDuration(track: Track): number {
+  return track[track.length - 1].time;
+}
+
+// linearly interpolated position at the given time, clamped to the ends
+export function positionAt(track: Track, elapsed: number): LatLng {
+  if (elapsed <= track[0].time) return { lat: track[0].lat, lng: track[0].lng };
+
+  for (let k = 1; k < track.length; k++) {
+    const a = track[k - 1];
+    const b = track[k];
+    if (elapsed <= b.time) {
+      const t = b.time > a.time ? (elapsed - a.time) / (b.time - a.time) : 1;
+      return {
+        lat: a.lat + (b.lat - a.lat) * t,
+        lng: a.lng + (b.lng - a.lng) * t,
+      };
+    }
+  }
+
+  const last = track[track.length - 1];
+  return { lat: last.lat, lng: last.lng };
+}
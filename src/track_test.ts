@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import { parseTrack, positionAt } from "./track.ts";
+
+Deno.test("GPX and GeoJSON tracks parse and interpolate", () => {
+  const gpx = parseTrack(`<gpx><trk><trkseg>
+    <trkpt lat="0.0001" lon="0"><time>2024-01-01T00:00:00Z</time></trkpt>
+    <trkpt lon="0" lat="0.0011"><time>2024-01-01T00:00:10Z</time></trkpt>
+  </trkseg></trk></gpx>`);
+  assert.deepEqual(gpx.map(({ time }) => time), [0, 10_000]);
+  const halfway = positionAt(gpx, 5_000);
+  assert.ok(Math.abs(halfway.lat - 0.0006) < 1e-12 && halfway.lng === 0);
+
+  // no timestamps: replayed at walking pace
+  const geo = parseTrack(JSON.stringify({
+    type: "Feature",
+    geometry: { type: "LineString", coordinates: [[0, 0], [0, 0.001]] },
+  }));
+  assert.ok(geo[1].time > 60_000 && geo[1].time < 100_000);
+
+  assert.throws(() => parseTrack("{}"));
+  assert.throws(() => parseTrack("not a track"));
+});
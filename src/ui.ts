@@ -1,8 +1,97 @@
-// @deno-types="npm:@types/leaflet"
-import L from "leaflet";
+import {
+  createCustomConfig,
+  GAME_PRESETS,
+  type GameConfig,
+  type PresetName,
+  resolveSeed,
+  type SeedMode,
+} from "./config.ts";
+import type { ExplorationStats } from "./exploration.ts";
+import {
+  isQuestComplete,
+  type Quest,
+  type QuestGoal,
+  questTarget,
+} from "./quests.ts";
+import {
+  ACHIEVEMENTS,
+  type LifetimeStats,
+  totalMerges,
+} from "./achievements.ts";
+import type { GpsState } from "./gps.ts";
+import type { Direction, ReplayOptions, ReplaySpeed } from "./movement.ts";
+import type { SlotSummary } from "./slots.ts";
+import { type Spirit, type SpiritKind, TEXT_DECIMALS } from "./world.ts";
 
-const FILL_OPACITY_EMPTY = 0.05;
-const FILL_OPACITY_FILLED = 0.12;
+// how cells are drawn; high contrast is for low vision and bright sunlight
+export type CellTheme = "standard" | "highContrast";
+
+const CELL_THEMES: Record<CellTheme, {
+  nearColor: string;
+  farColor: string;
+  borderWeight: number;
+  fillEmpty: number;
+  fillFilled: number;
+  cursorColor: string;
+}> = {
+  standard: {
+    nearColor: "#d607d6ff",
+    farColor: "#888",
+    borderWeight: 0.5,
+    fillEmpty: 0.05,
+    fillFilled: 0.25,
+    cursorColor: "#fff",
+  },
+  highContrast: {
+    nearColor: "#ffd400",
+    farColor: "#000",
+    borderWeight: 2,
+    fillEmpty: 0.15,
+    fillFilled: 0.65,
+    cursorColor: "#00e5ff",
+  },
+};
+
+const CURSOR_WEIGHT = 3;
+
+// mirrors Leaflet's default tooltip look for the cell value labels
+const LABEL_FONT = '12px "Helvetica Neue", Arial, Helvetica, sans-serif';
+const LABEL_PADDING = 6;
+const LABEL_HEIGHT = 18;
+const LABEL_RADIUS = 3;
+
+const HEATMAP_COLOR = "#d607d6";
+const HEATMAP_MAX_OPACITY = 0.6;
+
+const FOG_COLOR = "#1b1526";
+const FOG_OPACITY = 0.55;
+
+// how each spirit kind looks on the map and in the hotbar
+export const SPIRIT_STYLES: Record<
+  SpiritKind,
+  { name: string; icon: string; color: string }
+> = {
+  ember: { name: "ember", icon: "🔥", color: "#e8590c" },
+  tide: { name: "tide", icon: "💧", color: "#1c7ed6" },
+  grove: { name: "grove", icon: "🌿", color: "#2f9e44" },
+  steam: { name: "steam", icon: "♨️", color: "#868e96" },
+  bloom: { name: "bloom", icon: "🌸", color: "#e64980" },
+  wildfire: { name: "wildfire", icon: "☄️", color: "#f08c00" },
+};
+
+// e.g. "🔥 ember"
+export function describeKind(kind: SpiritKind): string {
+  const { icon, name } = SPIRIT_STYLES[kind];
+  return `${icon} ${name}`;
+}
+
+// a cell's rectangle in canvas pixels
+export interface CellBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 export function createDiv(id: string): HTMLDivElement {
   const div = document.createElement("div");
@@ -17,22 +106,669 @@ export function createWinOverlay(): HTMLDivElement {
   return div;
 }
 
+// cells holding a spirit are tinted with its kind's color
 export function updateCellAppearance(
-  rect: L.Rectangle,
-  value: number,
+  ctx: CanvasRenderingContext2D,
+  bounds: CellBounds,
+  spirit: Spirit | null,
   nearby: boolean,
+  theme: CellTheme = "standard",
+): void {
+  const { x, y, width, height } = bounds;
+  const style = CELL_THEMES[theme];
+  const color = nearby ? style.nearColor : style.farColor;
+
+  ctx.fillStyle = spirit ? SPIRIT_STYLES[spirit.kind].color : color;
+  ctx.globalAlpha = spirit ? style.fillFilled : style.fillEmpty;
+  ctx.fillRect(x, y, width, height);
+
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = style.borderWeight;
+  ctx.strokeRect(x, y, width, height);
+}
+
+// the keyboard cursor: a ring inside the cell, outlined so it shows on any map
+export function drawCellCursor(
+  ctx: CanvasRenderingContext2D,
+  bounds: CellBounds,
+  theme: CellTheme = "standard",
+): void {
+  const inset = CURSOR_WEIGHT;
+  const x = bounds.x + inset;
+  const y = bounds.y + inset;
+  const width = bounds.width - inset * 2;
+  const height = bounds.height - inset * 2;
+
+  ctx.strokeStyle = "#000";
+  ctx.lineWidth = CURSOR_WEIGHT + 2;
+  ctx.strokeRect(x, y, width, height);
+  ctx.strokeStyle = CELL_THEMES[theme].cursorColor;
+  ctx.lineWidth = CURSOR_WEIGHT;
+  ctx.strokeRect(x, y, width, height);
+}
+
+// the "<kind icon> value" label centered on a cell
+export function drawCellLabel(
+  ctx: CanvasRenderingContext2D,
+  bounds: CellBounds,
+  spirit: Spirit,
+): void {
+  const text = `${SPIRIT_STYLES[spirit.kind].icon} ${spirit.value}`;
+  ctx.font = LABEL_FONT;
+  const width = ctx.measureText(text).width + LABEL_PADDING * 2;
+  const height = LABEL_HEIGHT + LABEL_PADDING * 2;
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+
+  ctx.save();
+  ctx.shadowColor = "rgba(0, 0, 0, 0.4)";
+  ctx.shadowBlur = 3;
+  ctx.shadowOffsetY = 1;
+  ctx.fillStyle = "#fff";
+  ctx.beginPath();
+  ctx.roundRect(cx - width / 2, cy - height / 2, width, height, LABEL_RADIUS);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.fillStyle = "#222";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(text, cx, cy);
+}
+
+// one zoomed-out tile; intensity runs from 0 (barren) to 1 (rich)
+export function drawHeatmapTile(
+  ctx: CanvasRenderingContext2D,
+  bounds: CellBounds,
+  intensity: number,
+): void {
+  ctx.fillStyle = HEATMAP_COLOR;
+  ctx.globalAlpha = intensity * HEATMAP_MAX_OPACITY;
+  ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+  ctx.globalAlpha = 1;
+}
+
+// unexplored ground; density is the fogged share of the area (0 to 1)
+export function drawFog(
+  ctx: CanvasRenderingContext2D,
+  bounds: CellBounds,
+  density = 1,
+): void {
+  ctx.fillStyle = FOG_COLOR;
+  ctx.globalAlpha = density * FOG_OPACITY;
+  ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+  ctx.globalAlpha = 1;
+}
+
+export function downloadTextFile(filename: string, text: string): void {
+  const blob = new Blob([text], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// resolves with the file's text, or null if the player picked nothing
+export function pickTextFile(accept: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, () => resolve(null));
+    });
+    input.addEventListener("cancel", () => resolve(null));
+    input.click();
+  });
+}
+
+// --- Inventory hotbar -------------------------------------------
+
+export function renderHotbar(
+  container: HTMLElement,
+  summary: string,
+  inventory: readonly (Spirit | null)[],
+  selectedSlot: number,
+  onSelect: (slot: number) => void,
+): void {
+  const text = document.createElement("div");
+  text.textContent = summary;
+
+  const hotbar = document.createElement("div");
+  hotbar.className = "hotbar";
+
+  inventory.forEach((spirit, slot) => {
+    const cell = document.createElement("button");
+    cell.className = slot === selectedSlot
+      ? "hotbarSlot selected"
+      : "hotbarSlot";
+    cell.title = spirit
+      ? `Slot ${slot + 1}: ${SPIRIT_STYLES[spirit.kind].name} spirit`
+      : `Slot ${slot + 1}`;
+    cell.textContent = `${slot + 1}: ${
+      spirit ? `${SPIRIT_STYLES[spirit.kind].icon}${spirit.value}` : "–"
+    }`;
+    cell.addEventListener("click", () => onSelect(slot));
+    hotbar.append(cell);
+  });
+
+  container.replaceChildren(text, hotbar);
+}
+
+// --- New game settings ------------------------------------------
+
+export interface NewGameHandlers {
+  onStart(config: GameConfig): void;
+  onCancel(): void;
+}
+
+function createSelect<T extends string>(
+  options: Record<T, string>,
+  value: T,
+): HTMLSelectElement {
+  const select = document.createElement("select");
+  for (const [optionValue, label] of Object.entries(options)) {
+    const option = document.createElement("option");
+    option.value = optionValue;
+    option.textContent = label as string;
+    select.append(option);
+  }
+  select.value = value;
+  return select;
+}
+
+function createNumberField(
+  label: string,
+  value: number,
+  step: number,
+): [HTMLLabelElement, HTMLInputElement] {
+  const wrapper = document.createElement("label");
+  wrapper.textContent = label;
+  const input = document.createElement("input");
+  input.type = "number";
+  input.step = String(step);
+  input.value = String(value);
+  wrapper.append(input);
+  return [wrapper, input];
+}
+
+export function renderNewGamePanel(
+  container: HTMLElement,
+  current: GameConfig,
+  handlers: NewGameHandlers,
 ): void {
-  rect.setStyle({
-    color: nearby ? "#d607d6ff" : "#888",
-    fillOpacity: value > 0 ? FILL_OPACITY_FILLED : FILL_OPACITY_EMPTY,
+  const header = document.createElement("h3");
+  header.textContent = "New Dream";
+
+  const presetSelect = createSelect<PresetName>({
+    easy: "Easy",
+    normal: "Normal",
+    hard: "Hard",
+    custom: "Custom",
+  }, current.preset);
+
+  const seedSelect = createSelect<SeedMode>({
+    random: "Random world",
+    daily: "Daily seed",
+    custom: "Custom seed",
+  }, "random");
+
+  const seedInput = document.createElement("input");
+  seedInput.type = "text";
+  seedInput.placeholder = "Shared seed";
+  seedInput.value = current.seed;
+
+  const showSeedInput = () => {
+    seedInput.style.display = seedSelect.value === "custom" ? "block" : "none";
+  };
+  seedSelect.addEventListener("change", showSeedInput);
+  showSeedInput();
+
+  // custom fields start from the current run's rules
+  const spawnChance = current.spawnTable.at(-1)?.threshold ?? 0;
+  const [victoryLabel, victoryInput] = createNumberField(
+    "Victory value",
+    current.victoryValue,
+    1,
+  );
+  const [radiusLabel, radiusInput] = createNumberField(
+    "Interaction radius (cells)",
+    current.interactionRadiusCells,
+    1,
+  );
+  const [inventoryLabel, inventoryInput] = createNumberField(
+    "Inventory slots",
+    current.inventorySize,
+    1,
+  );
+  const [spawnLabel, spawnInput] = createNumberField(
+    "Spawn chance (%)",
+    Math.round(spawnChance * 100),
+    1,
+  );
+
+  const [respawnLabel, respawnInput] = createNumberField(
+    "Respawn after (hours, 0 = never)",
+    current.respawnCooldownMs / (60 * 60 * 1000),
+    0.5,
+  );
+
+  const customFields = document.createElement("div");
+  customFields.className = "customFields";
+  customFields.append(
+    victoryLabel,
+    radiusLabel,
+    inventoryLabel,
+    spawnLabel,
+    respawnLabel,
+  );
+
+  const showCustomFields = () => {
+    customFields.style.display = presetSelect.value === "custom"
+      ? "block"
+      : "none";
+  };
+  presetSelect.addEventListener("change", showCustomFields);
+  showCustomFields();
+
+  const start = createButton("Start", () => {
+    const preset = presetSelect.value as PresetName;
+    const rules = preset === "custom"
+      ? createCustomConfig({
+        victoryValue: victoryInput.valueAsNumber,
+        interactionRadiusCells: radiusInput.valueAsNumber,
+        inventorySize: inventoryInput.valueAsNumber,
+        spawnChance: spawnInput.valueAsNumber / 100,
+        respawnHours: respawnInput.valueAsNumber,
+      })
+      : GAME_PRESETS[preset];
+    const seed = resolveSeed(seedSelect.value as SeedMode, seedInput.value);
+    handlers.onStart({ ...rules, seed });
   });
 
-  rect.unbindTooltip();
-  if (value > 0) {
-    rect.bindTooltip(`✨ ${value}`, {
-      permanent: true,
-      direction: "center",
-      className: "cell-label",
+  container.replaceChildren(
+    header,
+    presetSelect,
+    customFields,
+    seedSelect,
+    seedInput,
+    start,
+    createButton("Cancel", () => handlers.onCancel()),
+  );
+}
+
+// --- Save slot list ---------------------------------------------
+
+export interface SlotListHandlers {
+  onCreate(): void;
+  onPlay(id: string): void;
+  onRename(id: string, name: string): void;
+  onDuplicate(id: string): void;
+  onDelete(id: string): void;
+}
+
+function createButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.textContent = label;
+  button.addEventListener("click", onClick);
+  return button;
+}
+
+function describeSlot(slot: SlotSummary): string {
+  const lastPlayed = slot.lastPlayed
+    ? new Date(slot.lastPlayed).toLocaleString()
+    : "never";
+  const position = slot.player
+    ? `(${slot.player.lat.toFixed(TEXT_DECIMALS)}, ${
+      slot.player.lng.toFixed(TEXT_DECIMALS)
+    })`
+    : "unknown";
+  const seed = slot.seed ? ` · seed "${slot.seed}"` : "";
+  return `Last played ${lastPlayed} · ${position} · best ✨ ${slot.highestSpirit}${seed}`;
+}
+
+export function renderSlotList(
+  container: HTMLElement,
+  slots: SlotSummary[],
+  activeId: string,
+  handlers: SlotListHandlers,
+): void {
+  container.replaceChildren();
+
+  const header = document.createElement("h3");
+  header.textContent = "Save Slots";
+  container.append(
+    header,
+    createButton("+ New Slot", () => handlers.onCreate()),
+  );
+
+  for (const slot of slots) {
+    const row = document.createElement("div");
+    row.className = slot.id === activeId ? "slotRow active" : "slotRow";
+
+    const name = document.createElement("strong");
+    name.textContent = slot.id === activeId ? `▶ ${slot.name}` : slot.name;
+
+    const details = document.createElement("div");
+    details.className = "slotDetails";
+    details.textContent = describeSlot(slot);
+
+    const actions = document.createElement("div");
+    if (slot.id !== activeId) {
+      actions.append(createButton("Play", () => handlers.onPlay(slot.id)));
+    }
+    actions.append(
+      createButton("Rename", () => {
+        const newName = prompt("Rename save slot:", slot.name)?.trim();
+        if (newName) handlers.onRename(slot.id, newName);
+      }),
+      createButton("Duplicate", () => handlers.onDuplicate(slot.id)),
+      createButton("Delete", () => {
+        if (confirm(`Delete "${slot.name}"? This cannot be undone.`)) {
+          handlers.onDelete(slot.id);
+        }
+      }),
+    );
+
+    row.append(name, details, actions);
+    container.append(row);
+  }
+}
+
+export interface ReplayHandlers {
+  onLoad: (options: ReplayOptions) => void;
+  onSpeed: (speed: ReplaySpeed) => void;
+  onStop: () => void;
+}
+
+const REPLAY_SPEEDS: [ReplaySpeed, string][] = [
+  [0, "⏸"],
+  [1, "1×"],
+  [10, "10×"],
+];
+
+// idle (speed null): a track picker with jitter / accuracy settings;
+// replaying: pause / 1× / 10× and stop
+export function renderReplayControls(
+  container: HTMLElement,
+  speed: ReplaySpeed | null,
+  handlers: ReplayHandlers,
+): void {
+  if (speed === null) {
+    const [jitterLabel, jitterInput] = createNumberField("Jitter (m)", 0, 1);
+    const [accuracyLabel, accuracyInput] = createNumberField(
+      "Accuracy (m)",
+      0,
+      1,
+    );
+
+    const load = document.createElement("button");
+    load.className = "saveButton";
+    load.textContent = "🛰️ Replay Track";
+    load.title = "Play a GPX or GeoJSON track as simulated GPS";
+    load.addEventListener("click", () => {
+      const jitterMeters = Math.max(0, Number(jitterInput.value) || 0);
+      const accuracyMeters = Math.max(0, Number(accuracyInput.value) || 0);
+      handlers.onLoad(
+        accuracyMeters > 0 ? { jitterMeters, accuracyMeters } : {
+          jitterMeters,
+        },
+      );
     });
+
+    container.replaceChildren(load, jitterLabel, accuracyLabel);
+    return;
+  }
+
+  const buttons = REPLAY_SPEEDS.map(([option, label]) => {
+    const button = document.createElement("button");
+    button.className = option === speed ? "saveButton selected" : "saveButton";
+    button.textContent = label;
+    button.addEventListener("click", () => handlers.onSpeed(option));
+    return button;
+  });
+
+  const stop = document.createElement("button");
+  stop.className = "saveButton";
+  stop.textContent = "■ Stop";
+  stop.addEventListener("click", handlers.onStop);
+
+  const row = document.createElement("div");
+  row.className = "replaySpeeds";
+  row.append(...buttons, stop);
+  container.replaceChildren(row);
+}
+
+const GPS_STATE_LABELS: Record<GpsState, string> = {
+  searching: "🛰️ GPS: searching…",
+  weak: "📶 GPS: weak signal",
+  locked: "📍 GPS: locked",
+};
+
+export function renderGpsStatus(container: HTMLElement, state: GpsState): void {
+  container.textContent = GPS_STATE_LABELS[state];
+  container.className = `gps-${state}`;
+}
+
+const DPAD_BUTTONS: [string, Direction | null][] = [
+  ["↖", { north: 1, east: -1 }],
+  ["↑", { north: 1, east: 0 }],
+  ["↗", { north: 1, east: 1 }],
+  ["←", { north: 0, east: -1 }],
+  ["", null],
+  ["→", { north: 0, east: 1 }],
+  ["↙", { north: -1, east: -1 }],
+  ["↓", { north: -1, east: 0 }],
+  ["↘", { north: -1, east: 1 }],
+];
+
+// on-screen 8-way D-pad; a direction is held while the pointer is down
+export function createDpad(
+  onHold: (direction: Direction | null) => void,
+): HTMLDivElement {
+  const dpad = createDiv("dpad");
+  for (const [label, direction] of DPAD_BUTTONS) {
+    const button = document.createElement("button");
+    button.className = "dpadButton";
+    button.textContent = label;
+    if (!direction) {
+      button.disabled = true;
+    } else {
+      button.addEventListener("pointerdown", (e) => {
+        e.preventDefault();
+        button.setPointerCapture(e.pointerId);
+        onHold(direction);
+      });
+      for (const type of ["pointerup", "pointercancel", "lostpointercapture"]) {
+        button.addEventListener(type, () => onHold(null));
+      }
+    }
+    dpad.append(button);
+  }
+  return dpad;
+}
+
+// --- Exploration stats ------------------------------------------
+
+function formatDistance(meters: number): string {
+  return meters >= 1000
+    ? `${(meters / 1000).toFixed(2)} km`
+    : `${Math.round(meters)} m`;
+}
+
+function formatArea(sqMeters: number): string {
+  return sqMeters >= 100_000
+    ? `${(sqMeters / 1_000_000).toFixed(2)} km²`
+    : `${Math.round(sqMeters).toLocaleString()} m²`;
+}
+
+export function renderExplorationStats(
+  container: HTMLElement,
+  stats: ExplorationStats,
+): void {
+  const header = document.createElement("h3");
+  header.textContent = "Exploration";
+
+  container.replaceChildren(
+    header,
+    createStatList([
+      ["Cells visited", stats.cellsVisited.toLocaleString()],
+      ["Cells explored", stats.cellsExplored.toLocaleString()],
+      ["Distance walked", formatDistance(stats.distanceMeters)],
+      ["Area covered", formatArea(stats.areaSqMeters)],
+    ]),
+  );
+}
+
+function createStatList(rows: [string, string][]): HTMLDListElement {
+  const list = document.createElement("dl");
+  list.className = "statList";
+  for (const [label, value] of rows) {
+    const term = document.createElement("dt");
+    term.textContent = label;
+    const detail = document.createElement("dd");
+    detail.textContent = value;
+    list.append(term, detail);
+  }
+  return list;
+}
+
+// --- Achievements -----------------------------------------------
+
+const TOAST_TIME = 4000;
+const TOAST_FADE_TIME = 400;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.floor(ms / 1000) % 60;
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+    : `${minutes} min ${seconds} s`;
+}
+
+// a short-lived notice stacked in the corner
+export function showToast(
+  stack: HTMLElement,
+  icon: string,
+  title: string,
+  text: string,
+): void {
+  const toast = document.createElement("div");
+  toast.className = "toast";
+  const heading = document.createElement("strong");
+  heading.textContent = `${icon} ${title}`;
+  const body = document.createElement("span");
+  body.textContent = text;
+  toast.append(heading, body);
+  stack.append(toast);
+
+  requestAnimationFrame(() => toast.classList.add("show"));
+  setTimeout(() => {
+    toast.classList.remove("show");
+    setTimeout(() => toast.remove(), TOAST_FADE_TIME);
+  }, TOAST_TIME);
+}
+
+export function renderAchievements(
+  container: HTMLElement,
+  stats: LifetimeStats,
+  unlockedAt: (id: string) => number | null,
+): void {
+  const statsHeader = document.createElement("h3");
+  statsHeader.textContent = "Lifetime";
+
+  const merges = Object.entries(stats.mergesByValue)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([value, count]): [string, string] => [
+      `Merges into ${value}`,
+      count.toLocaleString(),
+    ]);
+
+  const list = createStatList([
+    ["Victories", stats.victories.toLocaleString()],
+    [
+      "Fastest victory",
+      stats.fastestVictoryMs === null
+        ? "—"
+        : formatDuration(stats.fastestVictoryMs),
+    ],
+    ["Merges", totalMerges(stats).toLocaleString()],
+    ...merges,
+    ["Special spirits made", stats.specialsMade.toLocaleString()],
+    ["Cells traveled", stats.cellsTraveled.toLocaleString()],
+    ["GEO movement", formatDuration(stats.geoMs)],
+    ["BUTTON movement", formatDuration(stats.buttonMs)],
+  ]);
+
+  const achievementsHeader = document.createElement("h3");
+  const unlockedCount =
+    ACHIEVEMENTS.filter(({ id }) => unlockedAt(id) !== null).length;
+  achievementsHeader.textContent =
+    `Achievements (${unlockedCount}/${ACHIEVEMENTS.length})`;
+
+  const achievements = document.createElement("ul");
+  achievements.className = "achievementList";
+  for (const achievement of ACHIEVEMENTS) {
+    const time = unlockedAt(achievement.id);
+    const item = document.createElement("li");
+    item.classList.toggle("locked", time === null);
+    item.textContent =
+      `${achievement.icon} ${achievement.name}: ${achievement.description}`;
+    if (time !== null) {
+      item.title = `Unlocked ${new Date(time).toLocaleDateString()}`;
+    }
+    achievements.append(item);
+  }
+
+  container.replaceChildren(
+    statsHeader,
+    list,
+    achievementsHeader,
+    achievements,
+  );
+}
+
+// --- Daily quests -----------------------------------------------
+
+// e.g. "Merge 3 spirits into value 4"
+export function describeQuestGoal(goal: QuestGoal): string {
+  switch (goal.type) {
+    case "pickup":
+      return `Pick up ${goal.count} ${describeKind(goal.kind)} spirits`;
+    case "merge":
+      return `Merge ${goal.count} spirits into value ${goal.value}`;
+    case "dropAway":
+      return `Drop a spirit ${goal.meters} m ${goal.direction} of where you started today`;
+    case "visit":
+      return `Visit ${goal.count} new cells`;
+  }
+}
+
+export function renderQuestTracker(
+  container: HTMLElement,
+  quests: readonly Quest[],
+): void {
+  const list = document.createElement("ul");
+  list.className = "questList";
+  for (const quest of quests) {
+    const done = isQuestComplete(quest);
+    const item = document.createElement("li");
+    item.classList.toggle("done", done);
+    item.textContent = `${done ? "✅" : "📜"} ${
+      describeQuestGoal(quest.goal)
+    } (${quest.progress}/${questTarget(quest.goal)})`;
+    item.title = `Reward: ${
+      describeKind(quest.reward.kind)
+    } spirit of value ${quest.reward.value}`;
+    list.append(item);
   }
+  container.replaceChildren(list);
 }
@@ -1,5 +1,3 @@
-// @deno-types="npm:@types/leaflet"
-import L from "leaflet";
 import luck from "./_luck.ts";
 
 // --- Grid / world constants --------------------------------------
@@ -7,92 +5,279 @@ import luck from "./_luck.ts";
 export const CELL_SIZE_DEG = 0.0001;
 export const INTERACTION_RADIUS_CELLS = 3;
 export const TEXT_DECIMALS = 5;
+export const RESPAWN_COOLDOWN_MS = 2 * 60 * 60 * 1000;
 
-// Starting anchor (your classroom)
-export const WORLD_ORIGIN = L.latLng(
-  36.997936938057016,
-  -122.05703507501151,
-);
+export const DEFAULT_SPAWN_TABLE: SpawnRule[] = [
+  { threshold: 0.07, value: 4 },
+  { threshold: 0.14, value: 2 },
+  { threshold: 0.2, value: 1 },
+];
+
+// spirits spawn as one of the base kinds; the rest come from recipes
+export const BASE_SPIRIT_KINDS = ["ember", "tide", "grove"] as const;
+export const SPECIAL_SPIRIT_KINDS = ["steam", "bloom", "wildfire"] as const;
 
 // --- Types -------------------------------------------------------
 
+export type BaseSpiritKind = typeof BASE_SPIRIT_KINDS[number];
+export type SpiritKind =
+  | BaseSpiritKind
+  | typeof SPECIAL_SPIRIT_KINDS[number];
+
+export interface Spirit {
+  kind: SpiritKind;
+  value: number;
+}
+
+// plain coordinates so the world rules stay independent of Leaflet
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// spirits spawn with the first value whose threshold the cell's luck is under
+export interface SpawnRule {
+  threshold: number;
+  value: number;
+}
+
+// the per-run rules that shape the grid and spirit generation;
+// an empty seed keeps the original (pre-seed) world layout
+export interface WorldRules {
+  seed: string;
+  cellSizeDeg: number;
+  interactionRadiusCells: number;
+  spawnTable: SpawnRule[];
+  // emptied cells regrow after this long; 0 disables respawning
+  respawnCooldownMs: number;
+}
+
 // MEMENTO PATTERN
 export interface CellMemento {
   value: number;
+  // only on cells holding a spirit; cells saved before kinds existed hold
+  // the kind their spot spawns with
+  kind?: SpiritKind;
+  // wall-clock time (ms) of the last change
+  changedAt?: number;
+  // a quest reward: this player's alone, so never shared with other players
+  personal?: true;
+  // emptied by picking up a spirit the world grew (not one a player placed),
+  // so the cell regrows after the cooldown
+  regrows?: true;
 }
 
+// anything that can look up remembered cells (a Map or chunked memory)
+export type CellLookup = Pick<Map<string, CellMemento>, "get">;
+
+export const DEFAULT_WORLD_RULES: WorldRules = {
+  seed: "",
+  cellSizeDeg: CELL_SIZE_DEG,
+  interactionRadiusCells: INTERACTION_RADIUS_CELLS,
+  spawnTable: DEFAULT_SPAWN_TABLE,
+  respawnCooldownMs: RESPAWN_COOLDOWN_MS,
+};
+
+// Starting anchor (your classroom)
+export const WORLD_ORIGIN: Readonly<LatLng> = {
+  lat: 36.997936938057016,
+  lng: -122.05703507501151,
+};
+
 // --- Coordinate helpers ------------------------------------------
 
-export function latToCellIndex(lat: number): number {
-  return Math.floor(lat / CELL_SIZE_DEG);
+export function latToCellIndex(
+  lat: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+): number {
+  return Math.floor(lat / rules.cellSizeDeg);
 }
 
-export function lngToCellIndex(lng: number): number {
-  return Math.floor(lng / CELL_SIZE_DEG);
+export function lngToCellIndex(
+  lng: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+): number {
+  return Math.floor(lng / rules.cellSizeDeg);
 }
 
 export function cellKey(i: number, j: number): string {
   return `${i},${j}`;
 }
 
-export function getCellLatLng(i: number, j: number) {
-  const south = i * CELL_SIZE_DEG;
-  const west = j * CELL_SIZE_DEG;
+export function getCellLatLng(
+  i: number,
+  j: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+) {
+  const size = rules.cellSizeDeg;
+  const south = i * size;
+  const west = j * size;
   return {
     south,
     west,
-    north: south + CELL_SIZE_DEG,
-    east: west + CELL_SIZE_DEG,
+    north: south + size,
+    east: west + size,
   };
 }
 
-export function getCellCenter(i: number, j: number) {
-  const { south, west } = getCellLatLng(i, j);
+export function getCellCenter(
+  i: number,
+  j: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+) {
+  const { south, west } = getCellLatLng(i, j, rules);
   return {
-    lat: south + CELL_SIZE_DEG / 2,
-    lng: west + CELL_SIZE_DEG / 2,
+    lat: south + rules.cellSizeDeg / 2,
+    lng: west + rules.cellSizeDeg / 2,
   };
 }
 
-export function centerPlayerOnGrid(lat: number, lng: number): L.LatLng {
-  const i = Math.floor(lat / CELL_SIZE_DEG);
-  const j = Math.floor(lng / CELL_SIZE_DEG);
-  return L.latLng((i + 0.5) * CELL_SIZE_DEG, (j + 0.5) * CELL_SIZE_DEG);
+export function centerPlayerOnGrid(
+  lat: number,
+  lng: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+): LatLng {
+  const size = rules.cellSizeDeg;
+  const i = Math.floor(lat / size);
+  const j = Math.floor(lng / size);
+  return { lat: (i + 0.5) * size, lng: (j + 0.5) * size };
 }
 
 // --- Spirit generation / lookup ---------------------------------
 
-export function getSpiritValue(i: number, j: number): number {
-  const r = luck(`${i},${j},spirit`);
-  if (r < 0.2) return r < 0.07 ? 4 : r < 0.14 ? 2 : 1;
-  return 0;
+export function getSpiritValue(
+  i: number,
+  j: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+): number {
+  const situation = rules.seed
+    ? `${rules.seed},${i},${j},spirit`
+    : `${i},${j},spirit`;
+  const r = luck(situation);
+  const rule = rules.spawnTable.find(({ threshold }) => r < threshold);
+  return rule ? rule.value : 0;
 }
 
-export function getSpiritAt(
-  cellMemory: Map<string, CellMemento>,
+// the element of the spirit a cell spawns (or regrows, with a salt)
+export function getSpiritKind(
+  i: number,
+  j: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+  salt = "kind",
+): BaseSpiritKind {
+  const r = luck(`${rules.seed},${i},${j},${salt}`);
+  return BASE_SPIRIT_KINDS[Math.floor(r * BASE_SPIRIT_KINDS.length)];
+}
+
+// the untouched spirit of a cell, or null if it spawns empty
+export function getSpawnedSpirit(
+  i: number,
+  j: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+): Spirit | null {
+  const value = getSpiritValue(i, j, rules);
+  return value > 0 ? { kind: getSpiritKind(i, j, rules), value } : null;
+}
+
+// the spirit an emptied cell regrows, or 0; seeded by when it was emptied so
+// every regrowth is deterministic but not always the same. Rolled against
+// the spawn table like a fresh cell, so emptying cells can't farm spirits
+export function getRespawnValue(
   i: number,
   j: number,
+  changedAt: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+): number {
+  const r = luck(`${rules.seed},${i},${j},respawn,${changedAt}`);
+  const rule = rules.spawnTable.find(({ threshold }) => r < threshold);
+  return rule ? rule.value : 0;
+}
+
+export function hasRespawned(
+  memento: CellMemento,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+  now = Date.now(),
+): boolean {
+  return (
+    memento.value === 0 &&
+    memento.regrows === true &&
+    memento.changedAt !== undefined &&
+    rules.respawnCooldownMs > 0 &&
+    now - memento.changedAt >= rules.respawnCooldownMs
+  );
+}
+
+// the average spirit value of an untouched cell under these rules
+export function getExpectedSpiritValue(
+  rules: WorldRules = DEFAULT_WORLD_RULES,
 ): number {
-  const key = cellKey(i, j);
-  return cellMemory.has(key)
-    ? cellMemory.get(key)!.value
-    : getSpiritValue(i, j);
+  let previous = 0;
+  return rules.spawnTable.reduce((total, { threshold, value }) => {
+    const chance = Math.max(0, threshold - previous);
+    previous = Math.max(previous, threshold);
+    return total + chance * value;
+  }, 0);
+}
+
+// the spirit a cell holds right now, or null if it is empty
+export function getSpiritAt(
+  cellMemory: CellLookup,
+  i: number,
+  j: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+  now = Date.now(),
+): Spirit | null {
+  const memento = cellMemory.get(cellKey(i, j));
+  if (!memento) return getSpawnedSpirit(i, j, rules);
+
+  if (hasRespawned(memento, rules, now)) {
+    const value = getRespawnValue(i, j, memento.changedAt!, rules);
+    const salt = `respawn,${memento.changedAt}`;
+    return value > 0 ? { kind: getSpiritKind(i, j, rules, salt), value } : null;
+  }
+  if (memento.value === 0) return null;
+  return {
+    kind: memento.kind ?? getSpiritKind(i, j, rules),
+    value: memento.value,
+  };
+}
+
+// a remembered cell that reads like its untouched procedural self, now and
+// after any future respawn, so forgetting it changes nothing
+export function isProceduralDefault(
+  i: number,
+  j: number,
+  memento: CellMemento,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
+): boolean {
+  if (memento.value !== getSpiritValue(i, j, rules)) return false;
+  if (
+    memento.value > 0 && memento.kind !== undefined &&
+    memento.kind !== getSpiritKind(i, j, rules)
+  ) {
+    return false;
+  }
+  // an emptied cell may still regrow, which a procedural empty cell never does
+  return memento.value > 0 || !memento.regrows ||
+    memento.changedAt === undefined || rules.respawnCooldownMs === 0;
 }
 
 // --- Player / interaction helpers --------------------------------
 
 export function isCellNearPlayer(
-  playerPos: L.LatLng,
+  playerPos: LatLng,
   i: number,
   j: number,
+  rules: WorldRules = DEFAULT_WORLD_RULES,
 ): boolean {
-  const cellLat = i * CELL_SIZE_DEG;
-  const cellLng = j * CELL_SIZE_DEG;
+  const size = rules.cellSizeDeg;
+  const cellLat = i * size;
+  const cellLng = j * size;
   const distLat = Math.abs(cellLat - playerPos.lat);
   const distLng = Math.abs(cellLng - playerPos.lng);
 
   return (
-    distLat <= INTERACTION_RADIUS_CELLS * CELL_SIZE_DEG &&
-    distLng <= INTERACTION_RADIUS_CELLS * CELL_SIZE_DEG
+    distLat <= rules.interactionRadiusCells * size &&
+    distLng <= rules.interactionRadiusCells * size
   );
 }
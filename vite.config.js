@@ -9,5 +9,13 @@ export default {
     target: "baseline-widely-available",
     outDir: "dist",
     sourcemap: true,
+    rollupOptions: {
+      // the service worker is served from the site root as sw.js
+      input: { main: "index.html", sw: "src/sw.ts" },
+      output: {
+        entryFileNames: (chunk) =>
+          chunk.name === "sw" ? "sw.js" : "assets/[name]-[hash].js",
+      },
+    },
   },
 };